@@ -1,4 +1,128 @@
-import axios, { AxiosInstance } from "axios";
+import axios, { AxiosInstance, AxiosRequestConfig } from "axios";
+import { createHash } from "node:crypto";
+import {
+  ApiMap,
+  ApiPost,
+  ApiPostTemplate,
+  ApiPostTemplateVersion,
+  CreateMapInput,
+  CreatePostInput,
+  CreatePostTemplateInput,
+  DeleteResult,
+  UpdateMapInput,
+  UpdatePostInput,
+  UpdatePostTemplateInput
+} from "./models.js";
+import { readTags, ResponseCache, writeTags } from "./utils/cache.js";
+
+export interface RetryOptions {
+  // Retries after the first attempt (default: 3)
+  maxRetries?: number;
+  // Backoff before the first retry, doubled on each attempt (default: 500 ms)
+  baseDelay?: number;
+  // Upper bound for a single wait. A Retry-After longer than this is not
+  // waited for and the error is returned instead (default: 30 s)
+  maxDelay?: number;
+}
+
+export interface RequestOptions {
+  // Per-request timeout in milliseconds, overriding the client default
+  timeout?: number;
+  // Sent as the Idempotency-Key header. POSTs are only retried with one
+  idempotencyKey?: string;
+  // Skip the response cache for this GET (the fresh response is still cached)
+  noCache?: boolean;
+}
+
+export interface PaginateOptions {
+  // Key of the items array in each page, e.g. "maps" or "postTemplates"
+  itemsKey: string;
+  // Items requested per page (default: 100)
+  pageSize?: number;
+  // Offset of the first item (default: 0)
+  offset?: number;
+  // Stop after this many items
+  maxItems?: number;
+}
+
+export interface ListOptions {
+  // Page size (default: 20)
+  limit?: number;
+  // Offset of the page (default: 0)
+  offset?: number;
+  // Read every page instead of one, up to maxItems
+  all?: boolean;
+  maxItems?: number;
+}
+
+export interface ListPage<T> {
+  items: T[];
+  // Total the endpoint reports, which can exceed items.length
+  total: number;
+}
+
+const DEFAULT_PAGE_SIZE = 100;
+const DEFAULT_LIST_LIMIT = 20;
+const DEFAULT_TIMEOUT = 30 * 1000;
+// Access tokens are refreshed this long before they expire
+const REFRESH_WINDOW = 5 * 60 * 1000;
+const DEFAULT_RETRY: Required<RetryOptions> = {
+  maxRetries: 3,
+  baseDelay: 500,
+  maxDelay: 30 * 1000
+};
+
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+const RETRYABLE_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN"
+]);
+
+function isRetryableError(error: any): boolean {
+  const status = error.response?.status;
+  if (status !== undefined) {
+    return status === 429 || (status >= 500 && status !== 501);
+  }
+  return RETRYABLE_ERROR_CODES.has(error.code);
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(header: any): number | undefined {
+  if (header === undefined || header === null || header === "") {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(String(header));
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function parseEnvNumber(value: string | undefined): number | undefined {
+  const number = value ? parseInt(value) : NaN;
+  return isNaN(number) ? undefined : number;
+}
+
+/**
+ * Timeout, retry and cache settings from YOUMAP_REQUEST_TIMEOUT (ms),
+ * YOUMAP_MAX_RETRIES and YOUMAP_CACHE_TTL (ms), for spreading into a
+ * YouMapClientConfig.
+ */
+export function requestConfigFromEnv(): Pick<
+  YouMapClientConfig,
+  "timeout" | "retry" | "cacheTtl"
+> {
+  return {
+    timeout: parseEnvNumber(process.env.YOUMAP_REQUEST_TIMEOUT),
+    retry: { maxRetries: parseEnvNumber(process.env.YOUMAP_MAX_RETRIES) },
+    cacheTtl: parseEnvNumber(process.env.YOUMAP_CACHE_TTL)
+  };
+}
 
 export interface YouMapClientConfig {
   baseURL: string;
@@ -8,6 +132,15 @@ export interface YouMapClientConfig {
   serpApiKey?: string;
   unsplashAccessKey?: string;
   bflApiKey?: string;
+  geocoderUrl?: string;
+  // Default request timeout in milliseconds (default: 30 s)
+  timeout?: number;
+  retry?: RetryOptions;
+  // How long GET responses are cached in milliseconds, 0 to disable
+  // (default: 60 s). Ignored when a cache is passed in.
+  cacheTtl?: number;
+  // Cache shared with other clients for the same credentials
+  cache?: ResponseCache;
 }
 
 interface AuthTokens {
@@ -21,16 +154,33 @@ export class YouMapClient {
   private client: AxiosInstance;
   private config: YouMapClientConfig;
   private authTokens?: AuthTokens;
-  private isAuthenticating = false;
+  private tokenRequest?: Promise<AuthTokens>;
   private useApiKey: boolean;
+  private retry: Required<RetryOptions>;
+  private cache: ResponseCache;
+  // Prefix of the cache keys: a hash of the full credentials
+  private cacheScope: string;
+  private skipCache = false;
 
   constructor(config: YouMapClientConfig) {
     this.config = config;
     // Use API key if provided, otherwise fall back to OAuth
     this.useApiKey = !!config.apiKey;
+    this.retry = { ...DEFAULT_RETRY };
+    for (const [key, value] of Object.entries(config.retry || {})) {
+      if (value !== undefined) {
+        this.retry[key as keyof RetryOptions] = value;
+      }
+    }
+
+    this.cache = config.cache ?? new ResponseCache(config.cacheTtl);
+    this.cacheScope = createHash("sha256")
+      .update(config.apiKey || `${config.clientId}:${config.clientSecret}`)
+      .digest("hex");
 
     this.client = axios.create({
       baseURL: config.baseURL,
+      timeout: this.timeout,
       headers: {
         "Content-Type": "application/json",
       },
@@ -42,10 +192,8 @@ export class YouMapClient {
         config.headers["X-API-Key"] = this.config.apiKey;
       } else {
         // Use OAuth Bearer token
-        await this.ensureAuthenticated();
-        if (this.authTokens) {
-          config.headers.Authorization = `Bearer ${this.authTokens.token}`;
-        }
+        const token = await this.getAccessToken();
+        config.headers.Authorization = `Bearer ${token}`;
       }
 
       return config;
@@ -54,54 +202,41 @@ export class YouMapClient {
     this.client.interceptors.response.use(
       (response) => response,
       async (error) => {
+        const originalRequest = error.config;
+
         // For API key auth, don't attempt token refresh - just throw the error
-        if (this.useApiKey) {
+        if (
+          this.useApiKey ||
+          error.response?.status !== 401 ||
+          !originalRequest ||
+          originalRequest._authRetried
+        ) {
           throw error;
         }
 
-        if (error.response?.status === 401 && this.authTokens) {
-          try {
-            await this.refreshAccessToken();
-            const originalRequest = error.config;
-            if (this.authTokens) {
-              originalRequest.headers.Authorization = `Bearer ${this.authTokens.token}`;
-              return this.client(originalRequest);
-            }
-          } catch (refreshError) {
-            this.authTokens = undefined;
-            await this.ensureAuthenticated();
-            const originalRequest = error.config;
-            const tokens = this.authTokens as AuthTokens | undefined;
-            if (tokens) {
-              originalRequest.headers.Authorization = `Bearer ${tokens.token}`;
-              return this.client(originalRequest);
-            } else {
-              throw new Error(
-                "Failed to authenticate after token refresh failure"
-              );
-            }
-          }
+        // Every request that failed with the same token waits for the same
+        // renewal. Requests that were sent with a token that has been
+        // replaced meanwhile are retried with the new one right away.
+        const usedToken = String(
+          originalRequest.headers?.Authorization || ""
+        ).replace(/^Bearer /, "");
+        if (!this.authTokens || this.authTokens.token === usedToken) {
+          await this.renewTokens(usedToken);
         }
-        throw error;
+
+        originalRequest._authRetried = true;
+        return this.client(originalRequest);
       }
     );
   }
 
-  private async ensureAuthenticated(): Promise<void> {
-    // Skip OAuth authentication if using API key
-    if (this.useApiKey) {
-      return;
-    }
-
-    if (this.isAuthenticating) {
-      while (this.isAuthenticating) {
-        await new Promise((resolve) => setTimeout(resolve, 100));
-      }
-      return;
-    }
-
+  /**
+   * A valid access token. Tokens are refreshed proactively once they are
+   * within REFRESH_WINDOW of expiring.
+   */
+  private async getAccessToken(): Promise<string> {
     if (this.authTokens && !this.isTokenExpired()) {
-      return;
+      return this.authTokens.token;
     }
 
     if (!this.config.clientId || !this.config.clientSecret) {
@@ -110,7 +245,8 @@ export class YouMapClient {
       );
     }
 
-    await this.authenticate();
+    const tokens = await this.renewTokens(this.authTokens?.token);
+    return tokens.token;
   }
 
   private isTokenExpired(): boolean {
@@ -119,72 +255,424 @@ export class YouMapClient {
     const now = Date.now();
     const expirationTime =
       this.authTokens.obtainedAt + this.authTokens.expiresIn * 1000;
-    return now >= expirationTime - 5 * 60 * 1000;
+    return now >= expirationTime - REFRESH_WINDOW;
   }
 
-  private async authenticate(): Promise<void> {
-    this.isAuthenticating = true;
-
-    try {
-      const response = await axios.post(`${this.config.baseURL}/api/v1/auth`, {
-        clientId: this.config.clientId,
-        clientSecret: this.config.clientSecret,
-      });
+  /**
+   * Single-flight token renewal: while one refresh or authentication is in
+   * flight, every caller gets the same promise instead of starting another.
+   * Refreshes with the refresh token when there is one and falls back to
+   * authenticating with the client credentials.
+   */
+  private renewTokens(staleToken?: string): Promise<AuthTokens> {
+    if (!this.tokenRequest) {
+      const tokens = this.authTokens;
+      const renewal =
+        tokens && tokens.token === staleToken
+          ? this.refreshAccessToken(tokens.refreshToken).catch(() =>
+              this.authenticate()
+            )
+          : this.authenticate();
 
-      this.authTokens = {
-        token: response.data.token,
-        refreshToken: response.data.refreshToken,
-        expiresIn: parseInt(response.data.expiresIn),
-        obtainedAt: Date.now(),
-      };
-    } finally {
-      this.isAuthenticating = false;
+      this.tokenRequest = renewal
+        .then((tokens) => {
+          this.authTokens = tokens;
+          return tokens;
+        })
+        .finally(() => {
+          this.tokenRequest = undefined;
+        });
     }
+
+    return this.tokenRequest;
   }
 
-  private async refreshAccessToken(): Promise<void> {
-    if (!this.authTokens) {
-      throw new Error("No refresh token available");
-    }
+  private async authenticate(): Promise<AuthTokens> {
+    const response = await axios.post(`${this.config.baseURL}/api/v1/auth`, {
+      clientId: this.config.clientId,
+      clientSecret: this.config.clientSecret,
+    });
+
+    return this.toAuthTokens(response.data);
+  }
 
+  private async refreshAccessToken(refreshToken: string): Promise<AuthTokens> {
     const response = await axios.post(
       `${this.config.baseURL}/api/v1/auth/refreshAccessToken`,
       {
-        refreshToken: this.authTokens.refreshToken,
+        refreshToken,
       }
     );
 
-    this.authTokens = {
-      token: response.data.token,
-      refreshToken: response.data.refreshToken,
-      expiresIn: parseInt(response.data.expiresIn),
+    return this.toAuthTokens(response.data);
+  }
+
+  private toAuthTokens(data: any): AuthTokens {
+    return {
+      token: data.token,
+      refreshToken: data.refreshToken,
+      expiresIn: parseInt(data.expiresIn),
       obtainedAt: Date.now(),
     };
   }
 
-  async get(path: string, params?: any) {
-    const response = await this.client.get(path, { params });
-    return response.data;
+  /**
+   * Send a request, retrying transient failures (network errors, 429 and
+   * 5xx) with jittered exponential backoff. Only idempotent methods and
+   * requests with an idempotency key are retried. Retry-After is honored.
+   * The final error carries the number of attempts in `attempts` and in its
+   * message.
+   */
+  private async request(
+    config: AxiosRequestConfig,
+    options: RequestOptions = {}
+  ): Promise<any> {
+    const method = (config.method || "get").toUpperCase();
+    const headers: Record<string, string> = {};
+    if (options.idempotencyKey) {
+      headers["Idempotency-Key"] = options.idempotencyKey;
+    }
+
+    const retryable =
+      IDEMPOTENT_METHODS.has(method) || options.idempotencyKey !== undefined;
+    const maxAttempts = retryable ? this.retry.maxRetries + 1 : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await this.client.request({
+          ...config,
+          headers,
+          timeout: options.timeout
+        });
+        return response.data;
+      } catch (error: any) {
+        const delay =
+          attempt < maxAttempts && isRetryableError(error)
+            ? this.retryDelay(attempt, error)
+            : undefined;
+
+        if (delay === undefined) {
+          if (attempt > 1 && error instanceof Error) {
+            error.message = `${error.message} (after ${attempt} attempts)`;
+          }
+          error.attempts = attempt;
+          throw error;
+        }
+
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  // Wait before the next attempt, or undefined when Retry-After asks for
+  // longer than we are willing to wait
+  private retryDelay(attempt: number, error: any): number | undefined {
+    const retryAfter = parseRetryAfter(
+      error.response?.headers?.["retry-after"]
+    );
+    if (retryAfter !== undefined) {
+      return retryAfter <= this.retry.maxDelay ? retryAfter : undefined;
+    }
+
+    // Full jitter: a random wait up to the exponential backoff
+    const backoff = Math.min(
+      this.retry.maxDelay,
+      this.retry.baseDelay * 2 ** (attempt - 1)
+    );
+    return Math.random() * backoff;
+  }
+
+  async get(path: string, params?: any, options: RequestOptions = {}) {
+    const key = `${this.cacheScope} GET ${path} ${JSON.stringify(params ?? {})}`;
+
+    if (!this.skipCache && !options.noCache) {
+      const cached = this.cache.get(key);
+      if (cached !== undefined) {
+        return cached;
+      }
+    }
+
+    const data = await this.request(
+      { method: "get", url: path, params },
+      options
+    );
+    this.cache.set(key, data, readTags(path));
+    return data;
+  }
+
+  async post(path: string, data?: any, options?: RequestOptions) {
+    return this.write({ method: "post", url: path, data }, options);
+  }
+
+  async put(path: string, data?: any, options?: RequestOptions) {
+    return this.write({ method: "put", url: path, data }, options);
+  }
+
+  async delete(path: string, options?: RequestOptions) {
+    return this.write({ method: "delete", url: path }, options);
+  }
+
+  async patch(path: string, data?: any, options?: RequestOptions) {
+    return this.write({ method: "patch", url: path, data }, options);
+  }
+
+  // Writes drop the cached responses of the maps, actions and posts they touch
+  private async write(config: AxiosRequestConfig, options?: RequestOptions) {
+    try {
+      return await this.request(config, options);
+    } finally {
+      // Also after a failure, since the write may have been applied anyway
+      this.cache.invalidate(writeTags(config.url!, config.data));
+    }
+  }
+
+  /**
+   * A value built from API responses, such as a spatial index of a map's
+   * posts. It is kept in the response cache under `tags`, so it expires with
+   * the responses and the writes that make it stale drop it too.
+   */
+  async memoize<T>(
+    name: string,
+    tags: string[],
+    build: () => Promise<T>
+  ): Promise<T> {
+    const key = `${this.cacheScope} MEMO ${name}`;
+
+    if (!this.skipCache) {
+      const cached = this.cache.get(key);
+      if (cached !== undefined) {
+        return cached;
+      }
+    }
+
+    const value = await build();
+    this.cache.set(key, value, tags, { shared: true });
+    return value;
+  }
+
+  /**
+   * A view of this client whose GETs skip cached responses. It shares the
+   * connection, tokens and cache with this client, so fresh responses still
+   * update the cache.
+   */
+  withoutCache(): YouMapClient {
+    const view = Object.create(this) as YouMapClient;
+    view.skipCache = true;
+    return view;
+  }
+
+  /**
+   * Iterate over the pages of an offset/limit endpoint until its `count` is
+   * reached or a page comes back empty.
+   */
+  private async *pages(
+    path: string,
+    params: Record<string, any>,
+    options: PaginateOptions
+  ): AsyncGenerator<{ items: any[]; count: number }> {
+    const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+    let offset = options.offset ?? 0;
+
+    while (true) {
+      const page = await this.get(path, { ...params, limit: pageSize, offset });
+      const items: any[] = page?.[options.itemsKey] || [];
+      yield { items, count: page?.count ?? 0 };
+
+      offset += pageSize;
+      if (items.length === 0 || offset >= page?.count) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Iterate over every item of an offset/limit endpoint, fetching pages as
+   * they are needed:
+   *
+   *   for await (const map of client.paginate("/api/v1/map", {}, { itemsKey: "maps" }))
+   */
+  async *paginate<T = any>(
+    path: string,
+    params: Record<string, any> = {},
+    options: PaginateOptions
+  ): AsyncGenerator<T> {
+    let yielded = 0;
+
+    for await (const page of this.pages(path, params, options)) {
+      for (const item of page.items) {
+        if (options.maxItems !== undefined && yielded >= options.maxItems) {
+          return;
+        }
+        yielded++;
+        yield item;
+      }
+    }
+  }
+
+  /**
+   * Read every item of an offset/limit endpoint (up to `maxItems`), along
+   * with the total the endpoint reports.
+   */
+  async fetchAll<T = any>(
+    path: string,
+    params: Record<string, any> = {},
+    options: PaginateOptions
+  ): Promise<ListPage<T>> {
+    const items: T[] = [];
+    let total = 0;
+
+    for await (const page of this.pages(path, params, options)) {
+      total = page.count;
+      items.push(...page.items);
+      if (options.maxItems !== undefined && items.length >= options.maxItems) {
+        return { items: items.slice(0, options.maxItems), total };
+      }
+    }
+
+    return { items, total };
+  }
+
+  // One page of a list endpoint, or every page with options.all
+  private async list<T>(
+    path: string,
+    params: Record<string, any>,
+    itemsKey: string,
+    options: ListOptions = {}
+  ): Promise<ListPage<T>> {
+    if (options.all) {
+      return this.fetchAll<T>(path, params, {
+        itemsKey,
+        offset: options.offset,
+        maxItems: options.maxItems
+      });
+    }
+
+    const page = await this.get(path, {
+      ...params,
+      limit: options.limit ?? DEFAULT_LIST_LIMIT,
+      offset: options.offset ?? 0
+    });
+    return { items: page?.[itemsKey] || [], total: page?.count ?? 0 };
+  }
+
+  async getMap(mapId: number): Promise<ApiMap> {
+    return this.get(`/api/v1/map/${mapId}`);
+  }
+
+  async listMaps(options?: ListOptions): Promise<ListPage<ApiMap>> {
+    return this.list("/api/v1/map", {}, "maps", options);
+  }
+
+  async createMap(
+    data: CreateMapInput,
+    options?: RequestOptions
+  ): Promise<ApiMap> {
+    return this.post("/api/v1/map", data, options);
+  }
+
+  async updateMap(mapId: number, data: UpdateMapInput): Promise<ApiMap> {
+    return this.post(`/api/v1/map/${mapId}`, data);
+  }
+
+  async deleteMap(mapId: number): Promise<DeleteResult> {
+    return this.delete(`/api/v1/map/${mapId}`);
+  }
+
+  async getPost(postId: number): Promise<ApiPost> {
+    return this.get(`/api/v1/post/${postId}`);
+  }
+
+  async listPosts(
+    mapId: number,
+    filter: {
+      orderBy?: "trending" | "recent";
+      filterActionIds?: number[];
+    } = {},
+    options?: ListOptions
+  ): Promise<ListPage<ApiPost>> {
+    const params: Record<string, any> = { orderBy: filter.orderBy || "recent" };
+    if (filter.filterActionIds && filter.filterActionIds.length > 0) {
+      params.filterActionIds = filter.filterActionIds;
+    }
+    return this.list(`/api/v1/map/${mapId}/posts`, params, "posts", options);
+  }
+
+  async searchPostsByName(
+    phrase: string,
+    options?: ListOptions
+  ): Promise<ListPage<ApiPost>> {
+    return this.list("/api/v1/post/search/name", { phrase }, "posts", options);
+  }
+
+  async createPost(
+    data: CreatePostInput,
+    options?: RequestOptions
+  ): Promise<ApiPost> {
+    return this.post("/api/v1/post", data, options);
   }
 
-  async post(path: string, data?: any) {
-    const response = await this.client.post(path, data);
-    return response.data;
+  async updatePost(postId: number, data: UpdatePostInput): Promise<ApiPost> {
+    return this.patch(`/api/v2/post/${postId}`, data);
   }
 
-  async put(path: string, data?: any) {
-    const response = await this.client.put(path, data);
-    return response.data;
+  async deletePost(postId: number): Promise<DeleteResult> {
+    return this.delete(`/api/v1/post/${postId}`);
   }
 
-  async delete(path: string) {
-    const response = await this.client.delete(path);
-    return response.data;
+  // Deletes any post, regardless of its owner. Needs admin privileges.
+  async adminDeletePost(postId: number): Promise<DeleteResult> {
+    return this.delete(`/api/v1/post/admin/${postId}`);
   }
 
-  async patch(path: string, data?: any) {
-    const response = await this.client.patch(path, data);
-    return response.data;
+  async listPostTemplates(
+    mapId: number,
+    filter: { phrase?: string } = {},
+    options?: ListOptions
+  ): Promise<ListPage<ApiPostTemplate>> {
+    const params = filter.phrase ? { phrase: filter.phrase } : {};
+    return this.list(
+      `/api/v1/map/${mapId}/post-templates`,
+      params,
+      "postTemplates",
+      options
+    );
+  }
+
+  /**
+   * Every version of a post template, oldest first.
+   */
+  async getPostTemplateVersions(
+    postTemplateId: number
+  ): Promise<ApiPostTemplateVersion[]> {
+    const result = await this.get(
+      `/api/v1/post-template/${postTemplateId}/versions`
+    );
+    const versions: ApiPostTemplateVersion[] = Array.isArray(result)
+      ? result
+      : result?.versions || [];
+
+    return [...versions].sort((a, b) => a.version - b.version);
+  }
+
+  async createPostTemplate(
+    data: CreatePostTemplateInput,
+    options?: RequestOptions
+  ): Promise<ApiPostTemplate> {
+    return this.post("/api/v1/post-template", data, options);
+  }
+
+  async updatePostTemplate(
+    postTemplateId: number,
+    data: UpdatePostTemplateInput
+  ): Promise<ApiPostTemplate & ApiPostTemplateVersion> {
+    return this.put(
+      `/api/v1/post-template/${postTemplateId}/v/${data.version}`,
+      data
+    );
+  }
+
+  async deletePostTemplate(postTemplateId: number): Promise<DeleteResult> {
+    return this.delete(`/api/v1/post-template/${postTemplateId}`);
   }
 
   // Getter methods for API keys
@@ -199,4 +687,21 @@ export class YouMapClient {
   get bflApiKey(): string | undefined {
     return this.config.bflApiKey;
   }
+
+  // Identifies the credentials in tool call logs without exposing secrets
+  get credentialId(): string | undefined {
+    if (this.config.apiKey) {
+      return `apikey:${this.config.apiKey.substring(0, 7)}...`;
+    }
+    return this.config.clientId;
+  }
+
+  get geocoderUrl(): string {
+    return this.config.geocoderUrl || "https://nominatim.openstreetmap.org";
+  }
+
+  // Default request timeout, also used for calls to third-party services
+  get timeout(): number {
+    return this.config.timeout ?? DEFAULT_TIMEOUT;
+  }
 }
@@ -0,0 +1,137 @@
+import { YouMapClient } from "./client.js";
+import { BORDER_COLORS } from "./data/border-colors.js";
+import { EMOJI_SHORTNAMES } from "./data/emoji-shortnames.js";
+import { runTool } from "./tools/index.js";
+
+// completion/complete may return at most 100 values
+const MAX_COMPLETIONS = 100;
+
+export interface CompletionResult {
+  values: string[];
+  total: number;
+  hasMore: boolean;
+}
+
+function toResult(matches: string[]): CompletionResult {
+  return {
+    values: matches.slice(0, MAX_COMPLETIONS),
+    total: matches.length,
+    hasMore: matches.length > MAX_COMPLETIONS,
+  };
+}
+
+/**
+ * Score how well a shortname matches what was typed: exact, prefix, word
+ * prefix, substring, then characters in order. Returns null for no match.
+ */
+function fuzzyScore(candidate: string, query: string): number | null {
+  if (candidate === query) return 0;
+  if (candidate.startsWith(query)) return 1;
+  if (candidate.split("_").some((word) => word.startsWith(query))) return 2;
+  if (candidate.includes(query)) return 3;
+
+  let position = 0;
+  for (const char of query) {
+    position = candidate.indexOf(char, position) + 1;
+    if (position === 0) return null;
+  }
+  return 4;
+}
+
+export function completeEmoji(value: string): CompletionResult {
+  const query = value.toLowerCase().replace(/:/g, "");
+  if (!query) {
+    return toResult(EMOJI_SHORTNAMES);
+  }
+
+  const matches = EMOJI_SHORTNAMES.map((shortname) => ({
+    shortname,
+    score: fuzzyScore(shortname.replace(/:/g, ""), query),
+  }))
+    .filter((match) => match.score !== null)
+    .sort(
+      (a, b) => a.score! - b.score! || a.shortname.length - b.shortname.length,
+    )
+    .map((match) => match.shortname);
+
+  return toResult(matches);
+}
+
+export function completeBorderColor(value: string): CompletionResult {
+  const query = value.toUpperCase().replace(/^#?/, "#");
+  return toResult(BORDER_COLORS.filter((color) => color.startsWith(query)));
+}
+
+/**
+ * IDs whose digits start with the typed value, or whose name contains it.
+ */
+function matchIds(items: any[], value: string): string[] {
+  const query = value.trim().toLowerCase();
+  return items
+    .filter(
+      (item) =>
+        String(item.id).startsWith(query) ||
+        (item.name || "").toLowerCase().includes(query),
+    )
+    .map((item) => String(item.id));
+}
+
+async function completeMapId(
+  client: YouMapClient,
+  value: string,
+): Promise<CompletionResult> {
+  const result = await runTool(client, "list_maps", {
+    limit: 100,
+    offset: 0,
+  });
+  return toResult(matchIds(result.maps, value));
+}
+
+async function completeActionId(
+  client: YouMapClient,
+  value: string,
+  context: Record<string, string>,
+): Promise<CompletionResult> {
+  const mapId = Number(context.mapId);
+  // Actions belong to a map, so there is nothing to suggest until it is known
+  if (!Number.isInteger(mapId)) {
+    return toResult([]);
+  }
+
+  const result = await runTool(client, "list_actions", {
+    mapId,
+    limit: 100,
+    offset: 0,
+  });
+  return toResult(matchIds(result.actions, value));
+}
+
+/**
+ * Suggest values for a prompt or resource template argument. Arguments are
+ * completed by name, so mapId, actionId, emoji and borderColor work the same
+ * everywhere they appear. actionId needs the mapId from the context.
+ */
+export async function complete(
+  client: YouMapClient,
+  argument: { name: string; value: string },
+  context: Record<string, string> = {},
+): Promise<CompletionResult> {
+  try {
+    switch (argument.name) {
+      case "mapId":
+        return await completeMapId(client, argument.value);
+      case "actionId":
+        return await completeActionId(client, argument.value, context);
+      case "emoji":
+        return completeEmoji(argument.value);
+      case "borderColor":
+        return completeBorderColor(argument.value);
+      default:
+        return toResult([]);
+    }
+  } catch (error: any) {
+    // A failed lookup just means no suggestions while the user types
+    console.error(`Completion for ${argument.name} failed:`, error.message);
+    return toResult([]);
+  }
+}
@@ -0,0 +1,25 @@
+export const BORDER_COLORS: string[] = [
+  "#7530F6",
+  "#8337EC",
+  "#E43AFF",
+  "#A86EFF",
+  "#87A2FB",
+  "#64DFDF",
+  "#FF006E",
+  "#FF63C1",
+  "#FF7D00",
+  "#FFAB00",
+  "#FFCB00",
+  "#C0E218",
+  "#00D880",
+  "#8DCCFC",
+  "#4EA6FD",
+  "#802AFF",
+  "#3E7C17",
+  "#29B23F",
+  "#1B939F",
+  "#342EAD",
+  "#8A9297",
+  "#4C5F68",
+  "#232932",
+];
@@ -0,0 +1,104 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { v4 as uuidv4 } from "uuid";
+import { YouMapClient } from "./client.js";
+import { MCPTool, TOOLS } from "./tools/index.js";
+import { logToolCallToAPI } from "./utils/logging.js";
+import { describeTool, parseToolArguments } from "./utils/validation.js";
+
+export interface ToolCallContext {
+  client: YouMapClient;
+  correlationId?: string;
+  sequenceNumber?: number;
+}
+
+/**
+ * Single path for running a tool, used by stdio, Streamable HTTP sessions,
+ * /call-tool and the JSON-RPC endpoints. Looks the tool up, validates its
+ * arguments, times the call and logs it with the caller's context.
+ */
+export class ToolExecutor {
+  constructor(private tools: MCPTool[] = TOOLS) {}
+
+  listTools() {
+    return this.tools.map(describeTool);
+  }
+
+  findTool(name: string): MCPTool | undefined {
+    return this.tools.find((t) => t.name === name);
+  }
+
+  async execute(
+    name: string,
+    args: unknown,
+    context: ToolCallContext,
+  ): Promise<any> {
+    const tool = this.findTool(name);
+    if (!tool) {
+      throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+    }
+
+    // Invalid arguments are rejected before anything is timed or logged
+    const toolArgs = parseToolArguments(tool, args);
+
+    const correlationId = context.correlationId || uuidv4();
+    const sequenceNumber = context.sequenceNumber ?? 1;
+
+    console.error(
+      `Executing tool: ${name} (correlation: ${correlationId}, seq: ${sequenceNumber})`,
+    );
+
+    const startTime = Date.now();
+    let toolResult: any;
+    let toolError: any = null;
+    let success = false;
+
+    try {
+      toolResult = await tool.handler(
+        toolArgs,
+        toolArgs.noCache ? context.client.withoutCache() : context.client,
+      );
+      success = true;
+      return toolResult;
+    } catch (error) {
+      toolError = error;
+      console.error(`Error in tool ${name}:`, error);
+      throw error;
+    } finally {
+      // Log to API (fire and forget - don't await)
+      logToolCallToAPI({
+        correlationId,
+        toolName: name,
+        parameters: toolArgs,
+        response: success ? toolResult : null,
+        error: toolError
+          ? {
+              message:
+                toolError instanceof Error
+                  ? toolError.message
+                  : String(toolError),
+              stack: toolError instanceof Error ? toolError.stack : undefined,
+            }
+          : null,
+        duration: Date.now() - startTime,
+        success,
+        sequenceNumber,
+        clientId: context.client.credentialId,
+      }).catch((logError) => {
+        console.error("Logging error:", logError);
+      });
+    }
+  }
+
+  /**
+   * Wrap a tool result as MCP text content.
+   */
+  static toContent(result: any) {
+    return [
+      {
+        type: "text" as const,
+        text:
+          typeof result === "string" ? result : JSON.stringify(result, null, 2),
+      },
+    ];
+  }
+}
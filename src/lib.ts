@@ -0,0 +1,25 @@
+/**
+ * Library entry point of @youmap/youmap-mcp. Importing it has no side
+ * effects; the stdio server lives in index.ts (the youmap-mcp bin) and the
+ * HTTP server in server.ts.
+ */
+
+export {
+  requestConfigFromEnv,
+  YouMapClient,
+  ListOptions,
+  ListPage,
+  PaginateOptions,
+  RequestOptions,
+  RetryOptions,
+  YouMapClientConfig,
+} from "./client.js";
+export { ToolExecutor, ToolCallContext } from "./executor.js";
+export {
+  createMcpServer,
+  createYouMapMcpServer,
+  YouMapMcpServerOptions,
+} from "./mcp.js";
+export * from "./models.js";
+export { runTool, TOOLS, MCPTool } from "./tools/index.js";
+export { ResponseCache } from "./utils/cache.js";
@@ -0,0 +1,176 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  CompleteRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { v4 as uuidv4 } from "uuid";
+import { YouMapClient, YouMapClientConfig } from "./client.js";
+import { complete } from "./completions.js";
+import { ToolExecutor } from "./executor.js";
+import { getPrompt, listPrompts } from "./prompts.js";
+import {
+  listResources,
+  readResource,
+  RESOURCE_TEMPLATES,
+} from "./resources.js";
+import { MCPTool } from "./tools/index.js";
+
+// How often a running tool reports progress when the caller asked for it
+const PROGRESS_INTERVAL = 5000;
+
+const DEFAULT_BASE_URL = "https://developer.youmap.com";
+
+export interface YouMapMcpServerOptions extends Partial<YouMapClientConfig> {
+  // Client to call YouMap with. Otherwise one is created from the client
+  // options above, with baseURL defaulting to the public YouMap API.
+  client?: YouMapClient;
+  // Tools the server offers (default: all of TOOLS)
+  tools?: MCPTool[];
+}
+
+/**
+ * Build an MCP Server with the YouMap tool, resource and prompt handlers registered. Every
+ * transport (stdio, Streamable HTTP sessions, sessionless JSON-RPC) gets its
+ * server from here, so they all share one handler set. Tool calls on one
+ * server share a correlation ID and are numbered in order, starting at
+ * `trace.sequenceNumber`.
+ */
+export function createMcpServer(
+  client: YouMapClient,
+  executor = new ToolExecutor(),
+  trace: { correlationId?: string; sequenceNumber?: number } = {},
+): Server {
+  const correlationId = trace.correlationId || uuidv4();
+  let sequenceNumber = (trace.sequenceNumber ?? 1) - 1;
+
+  const server = new Server(
+    {
+      name: "youmap-mcp",
+      version: "1.0.0",
+      description:
+        "YouMap MCP Server - Create interactive maps, posts, actions and manage geographic content through the YouMap platform API",
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {},
+        prompts: {},
+        completions: {},
+      },
+    },
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: executor.listTools(),
+    };
+  });
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+    const progressToken = request.params._meta?.progressToken;
+    let heartbeat: NodeJS.Timeout | undefined;
+
+    try {
+      // Long tools (generate_image, import_posts, ...) keep the SSE stream
+      // alive with progress notifications while they run
+      if (progressToken !== undefined) {
+        const startedAt = Date.now();
+        let progress = 0;
+        heartbeat = setInterval(() => {
+          extra
+            .sendNotification({
+              method: "notifications/progress",
+              params: {
+                progressToken,
+                progress: ++progress,
+                message: `${name} running for ${Math.round(
+                  (Date.now() - startedAt) / 1000,
+                )}s`,
+              },
+            })
+            .catch(() => {});
+        }, PROGRESS_INTERVAL);
+      }
+
+      const result = await executor.execute(name, args, {
+        client,
+        correlationId,
+        sequenceNumber: ++sequenceNumber,
+      });
+
+      return {
+        content: ToolExecutor.toContent(result),
+      };
+    } finally {
+      clearInterval(heartbeat);
+    }
+  });
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return {
+      resources: await listResources(client),
+    };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return {
+      resourceTemplates: RESOURCE_TEMPLATES,
+    };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return {
+      contents: await readResource(client, request.params.uri),
+    };
+  });
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return {
+      prompts: listPrompts(),
+    };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    return getPrompt(request.params.name, request.params.arguments);
+  });
+
+  server.setRequestHandler(CompleteRequestSchema, async (request) => {
+    return {
+      completion: await complete(
+        client,
+        request.params.argument,
+        request.params.context?.arguments,
+      ),
+    };
+  });
+
+  return server;
+}
+
+/**
+ * Build a YouMap MCP server for embedding, e.g. in an Express app or a test
+ * harness. The server is not connected: pass it a transport with
+ * `server.connect(transport)`. Nothing is read from the environment, so pass
+ * credentials and settings explicitly.
+ */
+export function createYouMapMcpServer(
+  options: YouMapMcpServerOptions = {},
+): Server {
+  const { client, tools, ...config } = options;
+
+  return createMcpServer(
+    client ??
+      new YouMapClient({
+        ...config,
+        baseURL: config.baseURL || DEFAULT_BASE_URL,
+      }),
+    new ToolExecutor(tools),
+  );
+}
@@ -0,0 +1,346 @@
+/**
+ * Typed models of the YouMap API entities, and the mappers that turn them
+ * into the summaries the tools return. The API calls actions "post
+ * templates": ApiPostTemplate is what the tools describe as an action.
+ */
+
+import { FieldGroup } from "./utils/fields.js";
+import { BoundingBox } from "./utils/spatial.js";
+
+const APP_URL = "https://youmap.com";
+
+export type AccessLevel = "public" | "inviteOnly" | "private";
+
+export type ActionDuration =
+  | "Forever"
+  | "BasedOnDateField"
+  | "TwoMinutes"
+  | "HalfHour"
+  | "OneHour"
+  | "FourHours"
+  | "OneDay"
+  | "TwoDays"
+  | "ThreeDays"
+  | "SevenDays";
+
+export interface FieldOption {
+  id?: number;
+  text: string;
+  emoji?: string;
+}
+
+/**
+ * A field of an action version. Settings beyond the common ones depend on
+ * the field group, e.g. maxLength for text fields or min/max for value
+ * sliders.
+ */
+export interface FieldDefinition {
+  id?: number;
+  fieldTypeId?: number;
+  label: string;
+  order?: number;
+  featured?: boolean;
+  required?: boolean;
+  placeholder?: string;
+  options?: (FieldOption | string)[];
+  [setting: string]: any;
+}
+
+export type FieldDefinitions = Partial<
+  Record<Exclude<FieldGroup, "dateField">, FieldDefinition[]>
+> & {
+  dateField?: FieldDefinition | FieldDefinition[];
+};
+
+export interface MediaFile {
+  id?: number;
+  url: string;
+  type?: string;
+}
+
+/**
+ * A value stored on a post for one field, keyed to its definition by
+ * fieldTypeId. Which properties are set depends on the field group.
+ */
+export interface FieldValue {
+  id?: number;
+  fieldTypeId: number;
+  label?: string;
+  text?: string;
+  value?: number | string;
+  score?: number;
+  index?: number;
+  options?: (number | FieldOption)[];
+  files?: MediaFile[];
+  images?: MediaFile[];
+  startDate?: string;
+  endDate?: string;
+  startTime?: string;
+  endTime?: string;
+}
+
+export type PostFields = Partial<
+  Record<FieldGroup | "dateFields", FieldValue | FieldValue[]>
+>;
+
+export interface ApiMap {
+  id: number;
+  name: string;
+  slug: string;
+  description?: string;
+  // Some endpoints return the cover image as a media file
+  coverImage?: string | MediaFile;
+  accessLevel?: AccessLevel;
+  isReadonly?: boolean;
+  // Older responses name isReadonly this way
+  readonly?: boolean;
+  public?: boolean;
+  inviteEnabled?: boolean;
+  categoryIds?: number[];
+  boundingBox?: BoundingBox;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface ApiPost {
+  id: number;
+  name?: string;
+  description?: string;
+  slug: string;
+  lat: number;
+  lon: number;
+  mapId: number;
+  mapSlug: string;
+  userId?: number;
+  actionId: number;
+  actionName?: string;
+  actionVersion?: number;
+  postTemplateVersion?: number;
+  emoji?: string;
+  address?: string;
+  placeId?: string;
+  isEditable?: boolean;
+  isPublic?: boolean;
+  isQuickPost?: boolean;
+  voteCount?: number;
+  commentsCount?: number;
+  categoryIds?: number[];
+  score?: number;
+  images?: MediaFile[];
+  fields?: PostFields;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface ApiPostTemplate {
+  id: number;
+  name: string;
+  emoji: string;
+  mapId: number;
+  mapSlug?: string;
+  borderColor?: string;
+  duration?: ActionDuration;
+  order?: number;
+  isDisabled?: boolean;
+  latestVersion?: number;
+  fields?: FieldDefinitions;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface ApiPostTemplateVersion {
+  version: number;
+  isPublished?: boolean;
+  publishedAt?: string;
+  fields: FieldDefinitions;
+}
+
+export interface CreateMapInput {
+  name: string;
+  description?: string;
+  accessLevel: AccessLevel;
+  coverImageFromUrl?: string;
+  invitedUserIds: number[];
+  categoryIds: number[];
+  readonly: boolean;
+  boundingBox?: BoundingBox;
+  contentOrigin: string;
+}
+
+export type UpdateMapInput = Partial<Omit<CreateMapInput, "contentOrigin">>;
+
+export interface CreatePostInput {
+  mapId: number;
+  actionId: number;
+  name?: string;
+  description?: string;
+  lat: number;
+  lon: number;
+  address?: string;
+  placeId?: string;
+  contentOrigin: string;
+  fields?: Record<string, any>;
+}
+
+export interface UpdatePostInput {
+  name?: string;
+  description?: string;
+  latitude?: number;
+  longitude?: number;
+  actionId?: number;
+  address?: string;
+  placeId?: string;
+  deletedImageIds?: number[];
+  createdFields?: Record<string, any>;
+  updatedFields?: Record<string, any>;
+  deletedFields?: number[];
+}
+
+export interface CreatePostTemplateInput {
+  mapId: number;
+  name: string;
+  emoji: string;
+  borderColor?: string;
+  duration: ActionDuration;
+  order?: number;
+  fields?: Record<string, any>;
+}
+
+export interface UpdatePostTemplateInput {
+  version: number;
+  autoPublish: boolean;
+  fields?: Record<string, any>;
+  name?: string;
+  emoji?: string;
+  borderColor?: string;
+  duration?: ActionDuration;
+}
+
+// What the delete endpoints return
+export interface DeleteResult {
+  success: boolean;
+}
+
+export interface MapSummary {
+  id: number;
+  name: string;
+  description?: string;
+  coverImage?: string | MediaFile;
+  accessLevel?: AccessLevel;
+  isReadonly?: boolean;
+  public?: boolean;
+  inviteEnabled?: boolean;
+  categoryIds?: number[];
+  createdAt?: string;
+  updatedAt?: string;
+  url: string;
+}
+
+export interface PostSummary {
+  id: number;
+  name?: string;
+  description?: string;
+  latitude: number;
+  longitude: number;
+  mapId: number;
+  userId?: number;
+  actionId: number;
+  actionName?: string;
+  emoji?: string;
+  address?: string;
+  isEditable?: boolean;
+  isPublic?: boolean;
+  isQuickPost?: boolean;
+  voteCount?: number;
+  commentsCount?: number;
+  categoryIds?: number[];
+  createdAt?: string;
+  updatedAt?: string;
+  score?: number;
+  url: string;
+  mapUrl: string;
+}
+
+export interface ActionSummary {
+  id: number;
+  name: string;
+  emoji: string;
+  mapId: number;
+  borderColor?: string;
+  duration?: ActionDuration;
+  order?: number;
+  isDisabled?: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+  fields?: FieldDefinitions;
+  version?: number;
+  url: string;
+  mapUrl: string;
+}
+
+export function mapUrl(mapSlug: string | undefined): string {
+  return `${APP_URL}/app/${mapSlug}`;
+}
+
+export function toMapSummary(map: ApiMap): MapSummary {
+  return {
+    id: map.id,
+    name: map.name,
+    description: map.description,
+    coverImage: map.coverImage,
+    accessLevel: map.accessLevel,
+    isReadonly: map.isReadonly,
+    public: map.public,
+    inviteEnabled: map.inviteEnabled,
+    categoryIds: map.categoryIds,
+    createdAt: map.createdAt,
+    updatedAt: map.updatedAt,
+    url: mapUrl(map.slug),
+  };
+}
+
+export function toPostSummary(post: ApiPost): PostSummary {
+  return {
+    id: post.id,
+    name: post.name,
+    description: post.description,
+    latitude: post.lat,
+    longitude: post.lon,
+    mapId: post.mapId,
+    userId: post.userId,
+    actionId: post.actionId,
+    actionName: post.actionName,
+    emoji: post.emoji,
+    address: post.address,
+    isEditable: post.isEditable,
+    isPublic: post.isPublic,
+    isQuickPost: post.isQuickPost,
+    voteCount: post.voteCount,
+    commentsCount: post.commentsCount,
+    categoryIds: post.categoryIds,
+    createdAt: post.createdAt,
+    updatedAt: post.updatedAt,
+    score: post.score,
+    url: `${mapUrl(post.mapSlug)}/posts/${post.slug}`,
+    mapUrl: mapUrl(post.mapSlug),
+  };
+}
+
+export function toActionSummary(action: ApiPostTemplate): ActionSummary {
+  return {
+    id: action.id,
+    name: action.name,
+    emoji: action.emoji,
+    mapId: action.mapId,
+    borderColor: action.borderColor,
+    duration: action.duration,
+    order: action.order,
+    isDisabled: action.isDisabled,
+    createdAt: action.createdAt,
+    updatedAt: action.updatedAt,
+    fields: action.fields,
+    version: action.latestVersion,
+    url: `${APP_URL}/action/${action.id}`,
+    mapUrl: mapUrl(action.mapSlug),
+  };
+}
@@ -0,0 +1,208 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { BORDER_COLORS } from "./data/border-colors.js";
+
+interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  build(args: Record<string, string>): string;
+}
+
+const MAP_RULES = `Map rules:
+- Map names are 3-50 characters and must be unique. Check the name with check_map_name_availability before create_map and pick another name if it is taken.
+- Descriptions are 5-500 characters.
+- Always give the map a cover image: find one with search_image (use generate_image only if search_image returns nothing) and pass its URL as coverImageFromUrl.
+- accessLevel is "public" (default), "inviteOnly" or "private". Set readonly to true if other users should not post on the map.`;
+
+const ACTION_RULES = `Action (post template) rules:
+- Names are 1-50 characters.
+- emoji must be a shortcode such as ":camera:", never the emoji character. Look codes up with get_emoji_shortnames.
+- borderColor must be one of: ${BORDER_COLORS.join(", ")}.
+- At most 3 fields can be featured, or 2 if a media field is featured. Put featured fields first in the field order.
+- selectFields need 2-30 options of 1-25 characters. If withEmoji is true every option needs a valid emoji shortcode; if false no option may have one.
+- optionSliderFields need 2-4 unique option labels. valueSliderFields need min < max. ratingFields take maxRating 1-10.
+- There is at most one dateField. dateType is "Date", "Time" or "DateAndTime"; allowTimeRanges enables start/end ranges.
+- duration "BasedOnDateField" requires a dateField with required and allowTimeRanges both set to true.
+- A map's actions can be inspected with get_map or list_actions, and changed later with update_action on the latest version from get_action_versions.`;
+
+const POST_RULES = `Post rules:
+- Always use the latest version of the action.
+- Give each post a name (up to 100 characters) and a short description (1-2 sentences, 500 characters at most).
+- Place it with latitude/longitude, or pass an address and let create_post geocode it. Use geocode first if you need to check a location.
+- Fill custom fields with values keyed by field label, e.g. {"Cuisine": ["Thai"], "Rating": 4, "Event date": "2025-09-02/2025-09-05"}. Dates are ISO-8601; pass timezone when times are local.
+- For images use search_image and put the URL in a media field. Never use generate_image for posts.`;
+
+const WORKFLOW = `Call the tools in this order:
+1. check_map_name_availability
+2. search_image for the cover, then create_map with coverImageFromUrl
+3. create_action for each kind of place
+4. For every place: search_image, then create_post with the new actionId`;
+
+function optionalLine(label: string, value: string | undefined) {
+  return value ? `\n${label}: ${value}` : "";
+}
+
+export const PROMPTS: PromptDefinition[] = [
+  {
+    name: "build_map_from_topic",
+    description:
+      "Build a complete map about a topic: check the name, create the map with a cover image, design its actions and add posts.",
+    arguments: [
+      {
+        name: "topic",
+        description: "What the map is about, e.g. 'Best ramen in Tokyo'",
+        required: true,
+      },
+      {
+        name: "region",
+        description: "Area the places should be in (optional)",
+      },
+      {
+        name: "placeCount",
+        description: "How many posts to add (default: 10)",
+      },
+      {
+        name: "accessLevel",
+        description: "public, inviteOnly or private (default: public)",
+      },
+    ],
+    build: (args) => `Build a YouMap map about "${args.topic}".${optionalLine(
+      "Region",
+      args.region,
+    )}
+Number of places: ${args.placeCount || 10}
+Access level: ${args.accessLevel || "public"}
+
+${WORKFLOW}
+
+Design one action per kind of place, with fields that fit the topic (for example a rating, a select for categories and a media field for photos). Only add places that really exist and that you can locate.
+
+${MAP_RULES}
+
+${ACTION_RULES}
+
+${POST_RULES}
+
+When done, report the map URL, the actions created and the posts added.`,
+  },
+  {
+    name: "add_places_to_map",
+    description:
+      "Add posts for a list of places to an existing map, using its current actions.",
+    arguments: [
+      {
+        name: "mapId",
+        description: "ID of the map to add places to",
+        required: true,
+      },
+      {
+        name: "places",
+        description:
+          "Places to add: names, addresses or a description such as 'museums in Vienna'",
+        required: true,
+      },
+      {
+        name: "actionId",
+        description:
+          "Action to create the posts with (optional, otherwise pick the best fitting action of the map)",
+      },
+    ],
+    build: (args) => `Add these places to YouMap map ${args.mapId}:
+${args.places}${optionalLine("Action to use", args.actionId)}
+
+1. Call get_map with mapId ${args.mapId} to see its actions and their field definitions.
+2. Call search_posts_by_name for each place to avoid adding duplicates.
+3. For every new place: search_image, then create_post with the action's latest version, the location and values for its fields.
+
+Only create a new action with create_action if none of the existing actions fits the places.
+
+${POST_RULES}
+
+${ACTION_RULES}
+
+When done, list the posts created and any places that were skipped and why.`,
+  },
+  {
+    name: "design_action_for_use_case",
+    description:
+      "Design and create an action (post template) with fields that fit a use case, following YouMap's field rules.",
+    arguments: [
+      {
+        name: "mapId",
+        description: "ID of the map the action belongs to",
+        required: true,
+      },
+      {
+        name: "useCase",
+        description:
+          "What posts made with this action describe, e.g. 'restaurant reviews' or 'weekend events'",
+        required: true,
+      },
+      {
+        name: "emoji",
+        description:
+          "Emoji shortcode for the action, e.g. ':ramen:' (optional)",
+      },
+      {
+        name: "borderColor",
+        description: "Border color from the action palette (optional)",
+      },
+    ],
+    build: (args) => `Design an action (post template) for this use case.
+Use case: ${args.useCase}
+Map: ${args.mapId}${optionalLine("Emoji", args.emoji)}${optionalLine("Border color", args.borderColor)}
+
+1. Call get_map with mapId ${args.mapId} to see the map's existing actions and avoid duplicating them.
+2. Pick a name, an emoji (get_emoji_shortnames) and a borderColor, and choose the fields people need to describe a "${args.useCase}" post. Prefer structured fields (select, rating, sliders, date) over free text where it makes sense.
+3. Decide which fields are featured and required, and the duration posts stay active.
+4. Call create_action. If it reports validation errors, fix them and try again.
+
+${ACTION_RULES}
+
+When done, summarize the action and explain each field.`,
+  },
+];
+
+export function listPrompts() {
+  return PROMPTS.map(({ name, description, arguments: args }) => ({
+    name,
+    description,
+    arguments: args,
+  }));
+}
+
+export function getPrompt(name: string, args: Record<string, string> = {}) {
+  const prompt = PROMPTS.find((p) => p.name === name);
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+
+  const missing = prompt.arguments
+    .filter((arg) => arg.required && !args[arg.name])
+    .map((arg) => arg.name);
+  if (missing.length > 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Missing required arguments for prompt ${name}: ${missing.join(", ")}`,
+    );
+  }
+
+  return {
+    description: prompt.description,
+    messages: [
+      {
+        role: "user" as const,
+        content: {
+          type: "text" as const,
+          text: prompt.build(args),
+        },
+      },
+    ],
+  };
+}
@@ -0,0 +1,124 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { YouMapClient } from "./client.js";
+import { runTool } from "./tools/index.js";
+
+// JSON-RPC error code MCP uses for unknown resources
+const RESOURCE_NOT_FOUND = -32002;
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: "youmap://map/{mapId}",
+    name: "Map",
+    description:
+      "A map with its settings and its actions (post templates) with field definitions",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "youmap://map/{mapId}/posts",
+    name: "Map posts",
+    description: "The 100 most recent posts on a map",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "youmap://action/{actionId}/v/{version}",
+    name: "Action version",
+    description:
+      'One version of an action (post template) with its field definitions. Use "latest" as the version for the newest one.',
+    mimeType: "application/json",
+  },
+];
+
+const MAP_LIST_LIMIT = 100;
+
+// Resources are read through the same handlers as the corresponding tools,
+// so they return exactly what list_maps, get_map, etc. would.
+export async function listResources(client: YouMapClient) {
+  const result = await runTool(client, "list_maps", {
+    limit: MAP_LIST_LIMIT,
+    offset: 0,
+  });
+
+  return [
+    {
+      uri: "youmap://maps",
+      name: "Maps",
+      description: `Maps of the authenticated user (first ${MAP_LIST_LIMIT})`,
+      mimeType: "application/json",
+    },
+    ...result.maps.map((map: any) => ({
+      uri: `youmap://map/${map.id}`,
+      name: map.name,
+      description: map.description || undefined,
+      mimeType: "application/json",
+    })),
+  ];
+}
+
+async function loadResource(client: YouMapClient, uri: string) {
+  if (uri === "youmap://maps") {
+    return runTool(client, "list_maps", { limit: MAP_LIST_LIMIT, offset: 0 });
+  }
+
+  let match = uri.match(/^youmap:\/\/map\/(\d+)$/);
+  if (match) {
+    return runTool(client, "get_map", { mapId: Number(match[1]) });
+  }
+
+  match = uri.match(/^youmap:\/\/map\/(\d+)\/posts$/);
+  if (match) {
+    return runTool(client, "list_posts", {
+      mapId: Number(match[1]),
+      limit: 100,
+      offset: 0,
+    });
+  }
+
+  match = uri.match(/^youmap:\/\/action\/(\d+)\/v\/(\d+|latest)$/);
+  if (match) {
+    const result = await runTool(client, "get_action_versions", {
+      actionId: Number(match[1]),
+    });
+    const versions: any[] = result.versions || [];
+    const version =
+      match[2] === "latest"
+        ? versions[versions.length - 1]
+        : versions.find((v) => v.version === Number(match![2]));
+
+    if (!version) {
+      throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`, {
+        uri,
+      });
+    }
+    return version;
+  }
+
+  throw new McpError(
+    ErrorCode.InvalidParams,
+    `Unknown resource URI: ${uri}. Supported: youmap://maps, ${RESOURCE_TEMPLATES.map(
+      (t) => t.uriTemplate,
+    ).join(", ")}`,
+  );
+}
+
+export async function readResource(client: YouMapClient, uri: string) {
+  try {
+    const data = await loadResource(client, uri);
+
+    return [
+      {
+        uri,
+        mimeType: "application/json",
+        text: JSON.stringify(data, null, 2),
+      },
+    ];
+  } catch (error: any) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    // Tool handlers turn 404s into "... not found" errors
+    if (/not found/i.test(error.message)) {
+      throw new McpError(RESOURCE_NOT_FOUND, error.message, { uri });
+    }
+    throw error;
+  }
+}
@@ -1,86 +1,473 @@
 #!/usr/bin/env node
 
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
+  isInitializeRequest,
+  isJSONRPCNotification,
+  isJSONRPCRequest,
+  JSONRPCMessage,
+  McpError,
 } from "@modelcontextprotocol/sdk/types.js";
-import { YouMapClient } from "./client.js";
-import { TOOLS } from "./tools/index.js";
+import { requestConfigFromEnv, YouMapClient } from "./client.js";
+import { ToolExecutor } from "./executor.js";
+import { createMcpServer } from "./mcp.js";
 import express from "express";
 import cors from "cors";
 import { v4 as uuidv4 } from "uuid";
-import { logToolCallToAPI, extractCorrelationId } from "./utils/logging.js";
+import { ResponseCache } from "./utils/cache.js";
+import { extractCorrelationId } from "./utils/logging.js";
+
+interface ClientOptions {
+  apiKey?: string;
+  clientId?: string;
+  clientSecret?: string;
+  serpApiKey?: string;
+  unsplashAccessKey?: string;
+  bflApiKey?: string;
+}
+
+interface McpSession {
+  transport: StreamableHTTPServerTransport;
+  server: Server;
+  credentialKey: string;
+  lastSeenAt: number;
+}
+
+// Streamable HTTP sessions without any request for this long are closed
+const SESSION_IDLE_TIMEOUT = 30 * 60 * 1000;
+// Response caches kept at most, the least recently used one that no session
+// uses is dropped first
+const MAX_CACHES = 1000;
+
+// Identifies the YouMap credentials of a request, for sessions and caches
+function credentialKeyFor(options: ClientOptions): string {
+  return options.apiKey || `${options.clientId}:${options.clientSecret}`;
+}
+
+// Helper function to create YouMap client with credentials and API keys
+function createYouMapClient(
+  options: ClientOptions,
+  cache?: ResponseCache
+): YouMapClient {
+  return new YouMapClient({
+    baseURL: process.env.YOUMAP_BASE_URL || "https://developer.youmap.com",
+    apiKey: options.apiKey,
+    clientId: options.clientId,
+    clientSecret: options.clientSecret,
+    serpApiKey: options.serpApiKey,
+    unsplashAccessKey: options.unsplashAccessKey,
+    bflApiKey: options.bflApiKey,
+    geocoderUrl: process.env.GEOCODER_URL,
+    ...requestConfigFromEnv(),
+    cache,
+  });
+}
+
+function hasCredentials(options: ClientOptions): boolean {
+  return !!options.apiKey || !!(options.clientId && options.clientSecret);
+}
+
+// Sequence number of a call within its correlation ID, defaulting to 1
+function parseSequenceNumber(req: express.Request): number {
+  return parseInt((req.headers["x-sequence-number"] as string) || "1");
+}
+
+// Credentials for /v1/mcp: X-API-Key header or apiKey query param
+function apiKeyOptions(req: express.Request): ClientOptions {
+  return {
+    apiKey: (req.get("X-API-Key") || req.query.apiKey) as string | undefined,
+    serpApiKey: req.query.serpApiKey as string | undefined,
+    unsplashAccessKey: req.query.unsplashAccessKey as string | undefined,
+    bflApiKey: req.query.bflApiKey as string | undefined,
+  };
+}
+
+// Credentials for /:clientId/:clientSecret/v1/mcp
+function oauthOptions(req: express.Request): ClientOptions {
+  return {
+    clientId: req.params.clientId,
+    clientSecret: req.params.clientSecret,
+    serpApiKey: req.query.serpApiKey as string | undefined,
+    unsplashAccessKey: req.query.unsplashAccessKey as string | undefined,
+    bflApiKey: req.query.bflApiKey as string | undefined,
+  };
+}
+
+// Method names of sessionless JSON-RPC clients that predate MCP
+const LEGACY_METHODS = new Map([
+  ["list", "tools/list"],
+  ["list_tools", "tools/list"],
+  ["list_actions", "tools/list"],
+  ["call_tool", "tools/call"],
+  ["call_action", "tools/call"],
+]);
+
+// A sessionless message with its legacy method name replaced
+function withMcpMethod(message: any): any {
+  const method = LEGACY_METHODS.get(message?.method);
+  return method ? { ...message, method } : message;
+}
+
+function isNotification(message: any): boolean {
+  return typeof message?.method === "string" && message.id === undefined;
+}
+
+// The error response for a sessionless message that can't be dispatched
+function rejectMessage(
+  message: any,
+  options: ClientOptions
+): Record<string, any> | undefined {
+  const id =
+    typeof message?.id === "string" || typeof message?.id === "number"
+      ? message.id
+      : null;
+
+  if (message?.jsonrpc !== "2.0") {
+    return {
+      jsonrpc: "2.0",
+      error: {
+        code: -32600,
+        message: "Invalid Request: jsonrpc must be 2.0",
+      },
+      id,
+    };
+  }
+
+  if (!isJSONRPCRequest(message) && !isJSONRPCNotification(message)) {
+    return {
+      jsonrpc: "2.0",
+      error: {
+        code: -32600,
+        message: "Invalid Request: not a JSON-RPC request or notification",
+      },
+      id,
+    };
+  }
+
+  if (!hasCredentials(options)) {
+    return {
+      jsonrpc: "2.0",
+      error: {
+        code: -32001,
+        // The OAuth route always has clientId in its path
+        message: !options.clientId
+          ? "Unauthorized: Missing API key. Provide X-API-Key header or apiKey query parameter."
+          : "Unauthorized: Missing clientId or clientSecret",
+      },
+      id,
+    };
+  }
+
+  return undefined;
+}
+
+function logRequest(message: any, options: ClientOptions) {
+  const useApiKey = !options.clientId;
+  const { jsonrpc, method, params, id } = message || {};
+
+  console.log(
+    `=== MCP JSON-RPC REQUEST (${useApiKey ? "API Key" : "OAuth"}) ===`
+  );
+  if (useApiKey) {
+    console.log("Has API Key:", !!options.apiKey);
+  } else {
+    console.log("Client ID:", options.clientId?.substring(0, 8) + "...");
+  }
+  console.log("Method:", method);
+  console.log("Has SERP API Key:", !!options.serpApiKey);
+  console.log("Has Unsplash Key:", !!options.unsplashAccessKey);
+  console.log("Has BFL API Key:", !!options.bflApiKey);
+  console.log("Params:", params);
+  console.log("JSON-RPC Version:", jsonrpc);
+  console.log("Request ID:", id);
+  console.log("=======================================");
+}
 
 class YouMapMCPServer {
   private server: Server;
   private youmapClient: YouMapClient;
   private app?: express.Application;
+  private executor = new ToolExecutor();
+  private sessions = new Map<string, McpSession>();
+  // One response cache per credential, so users never see each other's data
+  private caches = new Map<string, ResponseCache>();
 
   constructor() {
-    this.server = new Server(
-      {
-        name: "youmap-mcp",
-        version: "1.0.0",
-        description:
-          "YouMap MCP Server - Create interactive maps, posts, actions and manage geographic content through the YouMap platform API",
-      },
-      {
-        capabilities: {
-          tools: {},
-        },
-      }
-    );
-
     this.youmapClient = new YouMapClient({
       baseURL: process.env.YOUMAP_BASE_URL || "https://developer.youmap.com",
       apiKey: process.env.YOUMAP_API_KEY,
       clientId: process.env.YOUMAP_CLIENT_ID,
       clientSecret: process.env.YOUMAP_CLIENT_SECRET,
+      geocoderUrl: process.env.GEOCODER_URL,
+      ...requestConfigFromEnv(),
     });
 
-    this.setupHandlers();
+    this.server = createMcpServer(this.youmapClient, this.executor);
   }
 
-  private setupHandlers() {
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-      return {
-        tools: TOOLS.map((tool) => ({
-          name: tool.name,
-          description: tool.description,
-          inputSchema: tool.inputSchema,
-        })),
-      };
+  /**
+   * A YouMap client for a request, sharing the response cache of earlier
+   * requests with the same credentials.
+   */
+  private clientFor(options: ClientOptions): YouMapClient {
+    const key = credentialKeyFor(options);
+    let cache = this.caches.get(key);
+    if (cache) {
+      // Move to the end, so the map stays ordered by last use
+      this.caches.delete(key);
+    } else {
+      cache = new ResponseCache(requestConfigFromEnv().cacheTtl);
+      if (this.caches.size >= MAX_CACHES) {
+        // Sessions keep their client, so their caches must stay shared
+        const unused = Array.from(this.caches.keys()).find(
+          (cached) => !this.hasSessionFor(cached)
+        );
+        if (unused !== undefined) {
+          this.caches.delete(unused);
+        }
+      }
+    }
+    this.caches.set(key, cache);
+    return createYouMapClient(options, cache);
+  }
+
+  private hasSessionFor(credentialKey: string): boolean {
+    for (const session of this.sessions.values()) {
+      if (session.credentialKey === credentialKey) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Reject credentials the YouMap API doesn't accept before a session is
+   * started for them. Answers the request and returns false when they are
+   * rejected or can't be checked.
+   */
+  private async verifyCredentials(
+    req: express.Request,
+    res: express.Response,
+    options: ClientOptions
+  ): Promise<boolean> {
+    try {
+      await createYouMapClient(options).listMaps({ limit: 1 });
+      return true;
+    } catch (error: any) {
+      const status = error.response?.status;
+      const rejected = status === 400 || status === 401 || status === 403;
+
+      res.status(rejected ? 401 : 502).json({
+        jsonrpc: "2.0",
+        error: {
+          code: rejected ? -32001 : -32603,
+          message: rejected
+            ? options.apiKey
+              ? "Unauthorized: Invalid API key"
+              : "Unauthorized: Invalid YouMap credentials"
+            : "Could not verify credentials with the YouMap API",
+          data: error.message,
+        },
+        id: req.body?.id ?? null,
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Serve a request with the MCP Streamable HTTP transport when it belongs to
+   * a session (Mcp-Session-Id header) or initializes one. Each session gets
+   * its own Server from createMcpServer and a YouMap client for its
+   * credentials, once the YouMap API has accepted them. Returns false for
+   * sessionless JSON-RPC calls, which are dispatched without a session.
+   */
+  private async handleStreamableHttp(
+    req: express.Request,
+    res: express.Response,
+    options: ClientOptions
+  ): Promise<boolean> {
+    const sessionId = req.get("Mcp-Session-Id");
+    const credentialKey = credentialKeyFor(options);
+
+    if (sessionId) {
+      const session = this.sessions.get(sessionId);
+
+      // Sessions are bound to the credentials that created them
+      if (!session || session.credentialKey !== credentialKey) {
+        res.status(404).json({
+          jsonrpc: "2.0",
+          error: {
+            code: -32001,
+            message: "Session not found",
+          },
+          id: null,
+        });
+        return true;
+      }
+
+      session.lastSeenAt = Date.now();
+      await session.transport.handleRequest(req, res, req.body);
+      return true;
+    }
+
+    if (req.method !== "POST") {
+      res.status(400).json({
+        jsonrpc: "2.0",
+        error: {
+          code: -32000,
+          message: "Bad Request: Mcp-Session-Id header is required",
+        },
+        id: null,
+      });
+      return true;
+    }
+
+    const acceptHeader = req.get("Accept") || "";
+    if (
+      !acceptHeader.includes("text/event-stream") ||
+      !isInitializeRequest(req.body)
+    ) {
+      return false;
+    }
+
+    if (!(await this.verifyCredentials(req, res, options))) {
+      return true;
+    }
+
+    const server = createMcpServer(this.clientFor(options), this.executor);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => uuidv4(),
+      onsessioninitialized: (id) => {
+        this.sessions.set(id, {
+          transport,
+          server,
+          credentialKey,
+          lastSeenAt: Date.now(),
+        });
+        console.log(`MCP session started: ${id}`);
+      },
     });
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.sessions.delete(transport.sessionId);
+        console.log(`MCP session closed: ${transport.sessionId}`);
+      }
+    };
 
-      try {
-        const tool = TOOLS.find((t) => t.name === name);
-        if (!tool) {
-          throw new Error(`Unknown tool: ${name}`);
-        }
+    await server.connect(transport);
+    await transport.handleRequest(req, res, req.body);
+    return true;
+  }
 
-        const result = await tool.handler(args, this.youmapClient);
+  /**
+   * POST handler shared by both JSON-RPC endpoints. Streamable HTTP requests
+   * go to their session; sessionless calls are dispatched to a Server of
+   * their own, one response per request of a batch.
+   */
+  private async handleJsonRpc(
+    req: express.Request,
+    res: express.Response,
+    options: ClientOptions
+  ) {
+    if (
+      hasCredentials(options) &&
+      (await this.handleStreamableHttp(req, res, options))
+    ) {
+      return;
+    }
+
+    if (!Array.isArray(req.body)) {
+      const [response] = await this.dispatch(req, [req.body], options);
+      return response ? res.json(response) : res.status(202).end();
+    }
+
+    if (req.body.length === 0) {
+      return res.json({
+        jsonrpc: "2.0",
+        error: {
+          code: -32600,
+          message: "Invalid Request: batch must not be empty",
+        },
+        id: null,
+      });
+    }
 
-        return {
-          content: [
-            {
-              type: "text",
-              text:
-                typeof result === "string"
-                  ? result
-                  : JSON.stringify(result, null, 2),
-            },
-          ],
-        };
-      } catch (error) {
-        console.error(`Error in tool ${name}:`, error);
-        throw error;
+    const responses = await this.dispatch(req, req.body, options);
+    if (responses.length === 0) {
+      return res.status(202).end();
+    }
+    return res.json(responses);
+  }
+
+  /**
+   * Answer sessionless JSON-RPC messages with a Server from createMcpServer,
+   * connected over an in-memory transport for the duration of the request.
+   * Messages run in order, since later ones may use what earlier ones made;
+   * notifications get no response.
+   */
+  private async dispatch(
+    req: express.Request,
+    messages: any[],
+    options: ClientOptions
+  ): Promise<Record<string, any>[]> {
+    const responses: Record<string, any>[] = [];
+
+    // Without credentials every message is rejected, no Server is needed
+    if (!hasCredentials(options)) {
+      for (const message of messages) {
+        logRequest(message, options);
+        if (!isNotification(message)) {
+          responses.push(rejectMessage(withMcpMethod(message), options)!);
+        }
       }
+      return responses;
+    }
+
+    const server = createMcpServer(this.clientFor(options), this.executor, {
+      correlationId: extractCorrelationId(req.headers),
+      sequenceNumber: parseSequenceNumber(req),
     });
+    const [transport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const pending = new Map<unknown, (response: JSONRPCMessage) => void>();
+    transport.onmessage = (message) => {
+      if ("id" in message && pending.has(message.id)) {
+        pending.get(message.id)!(message);
+        pending.delete(message.id);
+      }
+    };
+    await server.connect(serverTransport);
+
+    try {
+      for (const message of messages) {
+        logRequest(message, options);
+
+        const request = withMcpMethod(message);
+        const rejected = rejectMessage(request, options);
+        if (rejected) {
+          if (!isNotification(request)) {
+            responses.push(rejected);
+          }
+          continue;
+        }
+
+        if (isNotification(request)) {
+          await transport.send(request);
+          continue;
+        }
+
+        const response = new Promise<JSONRPCMessage>((resolve) =>
+          pending.set(request.id, resolve)
+        );
+        await transport.send(request);
+        responses.push(await response);
+      }
+    } finally {
+      await server.close();
+    }
+
+    return responses;
   }
 
   async startStdio() {
@@ -97,6 +484,7 @@ class YouMapMCPServer {
       cors({
         origin: true, // Allow all origins for MCP
         credentials: true,
+        exposedHeaders: ["Mcp-Session-Id"],
       })
     );
 
@@ -124,21 +512,16 @@ class YouMapMCPServer {
           tools: "/tools",
           callTool: "/call-tool",
         },
-        tools: TOOLS.map((tool) => ({
-          name: tool.name,
-          description: tool.description,
-        })),
+        tools: this.executor
+          .listTools()
+          .map(({ name, description }) => ({ name, description })),
       });
     });
 
     // Tools info endpoint
     this.app.get("/tools", (req, res) => {
       res.json({
-        tools: TOOLS.map((tool) => ({
-          name: tool.name,
-          description: tool.description,
-          inputSchema: tool.inputSchema,
-        })),
+        tools: this.executor.listTools(),
       });
     });
 
@@ -154,15 +537,18 @@ class YouMapMCPServer {
           });
         }
 
-        const tool = TOOLS.find((t) => t.name === name);
-        if (!tool) {
+        if (!this.executor.findTool(name)) {
           return res.status(404).json({
             error: "Unknown tool",
             message: `Tool '${name}' not found`,
           });
         }
 
-        const result = await tool.handler(args || {}, this.youmapClient);
+        const result = await this.executor.execute(name, args, {
+          client: this.youmapClient,
+          correlationId: extractCorrelationId(req.headers),
+          sequenceNumber: parseSequenceNumber(req),
+        });
 
         res.json({
           success: true,
@@ -172,6 +558,17 @@ class YouMapMCPServer {
         });
       } catch (error) {
         console.error("Tool execution error:", error);
+
+        if (error instanceof McpError) {
+          return res.status(400).json({
+            success: false,
+            error: error.message,
+            details: error.data,
+            tool: req.body?.name,
+            timestamp: new Date().toISOString(),
+          });
+        }
+
         res.status(500).json({
           success: false,
           error: error instanceof Error ? error.message : "Unknown error",
@@ -181,530 +578,69 @@ class YouMapMCPServer {
       }
     });
 
-    // Middleware to check Accept headers for JSON-RPC MCP endpoints (legacy OAuth only)
-    const checkMCPHeaders = (
-      req: express.Request,
-      res: express.Response,
-      next: express.NextFunction
-    ) => {
-      // Skip header check for API key endpoint - it's more flexible
-      if (req.path === "/v1/mcp") {
-        return next();
-      }
+    // Streamable HTTP: GET opens a session's server-to-client SSE stream and
+    // DELETE ends the session. POSTs are routed in the JSON-RPC handlers below.
+    const handleSessionRequest =
+      (getOptions: (req: express.Request) => ClientOptions) =>
+      async (req: express.Request, res: express.Response) => {
+        const options = getOptions(req);
 
-      const acceptHeader = req.get("Accept") || "";
-
-      // Check if it's a JSON-RPC MCP request (legacy OAuth endpoint)
-      if (req.path.includes("/mcp") && req.method === "POST") {
-        if (
-          !acceptHeader.includes("application/json") ||
-          !acceptHeader.includes("text/event-stream")
-        ) {
-          return res.status(406).json({
+        if (!hasCredentials(options)) {
+          return res.status(401).json({
             jsonrpc: "2.0",
             error: {
-              code: -32000,
-              message:
-                "Not Acceptable: Client must accept both application/json and text/event-stream",
+              code: -32001,
+              message: "Unauthorized: Missing credentials",
             },
             id: null,
           });
         }
-      }
-      next();
-    };
-
-    this.app.use(checkMCPHeaders);
-
-    // Helper function to create YouMap client with credentials and API keys
-    const createYouMapClient = (options: {
-      apiKey?: string;
-      clientId?: string;
-      clientSecret?: string;
-      serpApiKey?: string;
-      unsplashAccessKey?: string;
-      bflApiKey?: string;
-    }): YouMapClient => {
-      return new YouMapClient({
-        baseURL: process.env.YOUMAP_BASE_URL || "https://developer.youmap.com",
-        apiKey: options.apiKey,
-        clientId: options.clientId,
-        clientSecret: options.clientSecret,
-        serpApiKey: options.serpApiKey,
-        unsplashAccessKey: options.unsplashAccessKey,
-        bflApiKey: options.bflApiKey,
-      });
-    };
 
-    // JSON-RPC MCP endpoint with API key authentication
-    // URL format: /v1/mcp with X-API-Key header or apiKey query param
-    this.app.post("/v1/mcp", async (req, res) => {
-      const apiKey = (req.get("X-API-Key") || req.query.apiKey) as
-        | string
-        | undefined;
-      const { serpApiKey, unsplashAccessKey, bflApiKey } = req.query;
-      const { jsonrpc, method, params, id } = req.body;
-
-      console.log("=== MCP JSON-RPC REQUEST (API Key) ===");
-      console.log("Has API Key:", !!apiKey);
-      console.log("Method:", method);
-      console.log("Has SERP API Key:", !!serpApiKey);
-      console.log("Has Unsplash Key:", !!unsplashAccessKey);
-      console.log("Has BFL API Key:", !!bflApiKey);
-      console.log("Params:", params);
-      console.log("JSON-RPC Version:", jsonrpc);
-      console.log("Request ID:", id);
-      console.log("=======================================");
-
-      // Validate JSON-RPC
-      if (jsonrpc !== "2.0") {
-        return res.json({
-          jsonrpc: "2.0",
-          error: {
-            code: -32600,
-            message: "Invalid Request: jsonrpc must be 2.0",
-          },
-          id: id,
-        });
-      }
-
-      // Validate API key
-      if (!apiKey) {
-        return res.json({
-          jsonrpc: "2.0",
-          error: {
-            code: -32001,
-            message:
-              "Unauthorized: Missing API key. Provide X-API-Key header or apiKey query parameter.",
-          },
-          id: id,
-        });
-      }
+        await this.handleStreamableHttp(req, res, options);
+      };
 
-      try {
-        // Create YouMap client with API key
-        const youmapClient = createYouMapClient({
-          apiKey,
-          serpApiKey: serpApiKey as string,
-          unsplashAccessKey: unsplashAccessKey as string,
-          bflApiKey: bflApiKey as string,
-        });
+    this.app.get("/v1/mcp", handleSessionRequest(apiKeyOptions));
+    this.app.delete("/v1/mcp", handleSessionRequest(apiKeyOptions));
+    this.app.get(
+      "/:clientId/:clientSecret/v1/mcp",
+      handleSessionRequest(oauthOptions)
+    );
+    this.app.delete(
+      "/:clientId/:clientSecret/v1/mcp",
+      handleSessionRequest(oauthOptions)
+    );
 
-        switch (method) {
-          case "tools/list":
-          case "list":
-          case "list_tools":
-          case "initialize":
-          case "list_actions":
-            // Handle initialize method for MCP protocol
-            if (method === "initialize") {
-              return res.json({
-                jsonrpc: "2.0",
-                result: {
-                  protocolVersion: "2024-11-05",
-                  capabilities: {
-                    tools: {},
-                  },
-                  serverInfo: {
-                    name: "youmap-mcp",
-                    version: "1.0.0",
-                  },
-                },
-                id: id,
-              });
-            }
-
-            const toolsList = TOOLS.map((tool) => ({
-              name: tool.name,
-              description: tool.description,
-              inputSchema: tool.inputSchema,
-            }));
-
-            return res.json({
-              jsonrpc: "2.0",
-              result: {
-                tools: toolsList,
-              },
-              id: id,
-            });
-
-          case "tools/call":
-          case "call_tool":
-          case "call_action":
-            const { name, arguments: args } = params || {};
-
-            if (!name) {
-              return res.json({
-                jsonrpc: "2.0",
-                error: {
-                  code: -32602,
-                  message: "Invalid params: tool name is required",
-                },
-                id: id,
-              });
-            }
-
-            const tool = TOOLS.find((t) => t.name === name);
-
-            if (!tool) {
-              return res.json({
-                jsonrpc: "2.0",
-                error: {
-                  code: -32601,
-                  message: `Method not found: ${name}`,
-                },
-                id: id,
-              });
-            }
-
-            // Extract correlation ID from headers or generate new one
-            const correlationId = extractCorrelationId(req.headers) || uuidv4();
-
-            // Get sequence number from header or default to 1
-            const sequenceNumber = parseInt(
-              (req.headers["x-sequence-number"] as string) || "1"
-            );
-
-            console.log(
-              `Executing tool: ${name} (correlation: ${correlationId}, seq: ${sequenceNumber})`
-            );
-
-            // Execute tool and track timing
-            const startTime = Date.now();
-            let toolResult: any;
-            let toolError: any = null;
-            let success = false;
-
-            try {
-              toolResult = await tool.handler(args || {}, youmapClient);
-              success = true;
-            } catch (error) {
-              toolError = error;
-              success = false;
-              throw error; // Re-throw to be handled by outer catch
-            } finally {
-              const duration = Date.now() - startTime;
-
-              // Log to API (fire and forget - don't await)
-              logToolCallToAPI({
-                correlationId,
-                toolName: name,
-                parameters: args || {},
-                response: success ? toolResult : null,
-                error: toolError
-                  ? {
-                      message:
-                        toolError instanceof Error
-                          ? toolError.message
-                          : String(toolError),
-                      stack:
-                        toolError instanceof Error
-                          ? toolError.stack
-                          : undefined,
-                    }
-                  : null,
-                duration,
-                success,
-                sequenceNumber,
-                clientId: `apikey:${apiKey.substring(0, 7)}...`,
-              }).catch((logError) => {
-                console.error("Logging error:", logError);
-              });
-            }
-
-            return res.json({
-              jsonrpc: "2.0",
-              result: {
-                content: [
-                  {
-                    type: "text",
-                    text:
-                      typeof toolResult === "string"
-                        ? toolResult
-                        : JSON.stringify(toolResult, null, 2),
-                  },
-                ],
-              },
-              id: id,
-            });
-
-          default:
-            return res.json({
-              jsonrpc: "2.0",
-              error: {
-                code: -32601,
-                message: `Method not found: ${method}`,
-              },
-              id: id,
-            });
-        }
-      } catch (error) {
-        console.error("MCP JSON-RPC Error:", error);
-
-        // Handle authentication errors specifically
-        if (
-          error instanceof Error &&
-          (error.message.includes("401") ||
-            error.message.includes("Unauthorized") ||
-            error.message.includes("Invalid credentials") ||
-            error.message.includes("Invalid API key"))
-        ) {
-          return res.json({
-            jsonrpc: "2.0",
-            error: {
-              code: -32001,
-              message: "Unauthorized: Invalid API key",
-              data: error.message,
-            },
-            id: id,
+    // Close sessions whose client went away without sending DELETE, and drop
+    // expired cache entries and the caches left empty that no session uses
+    setInterval(() => {
+      const cutoff = Date.now() - SESSION_IDLE_TIMEOUT;
+      for (const session of this.sessions.values()) {
+        if (session.lastSeenAt < cutoff) {
+          session.transport.close().catch((error) => {
+            console.error("Failed to close idle MCP session:", error);
           });
         }
-
-        return res.json({
-          jsonrpc: "2.0",
-          error: {
-            code: -32603,
-            message: "Internal error",
-            data: error instanceof Error ? error.message : "Unknown error",
-          },
-          id: id,
-        });
-      }
-    });
-
-    // JSON-RPC MCP endpoint - AgentKit compatible with OAuth credentials (legacy)
-    // URL format: /:clientId/:clientSecret/v1/mcp?serpApiKey=...&unsplashAccessKey=...&bflApiKey=...
-    this.app.post("/:clientId/:clientSecret/v1/mcp", async (req, res) => {
-      const { clientId, clientSecret } = req.params;
-      const { serpApiKey, unsplashAccessKey, bflApiKey } = req.query;
-      const { jsonrpc, method, params, id } = req.body;
-
-      console.log("=== MCP JSON-RPC REQUEST (OAuth) ===");
-      console.log("Client ID:", clientId.substring(0, 8) + "...");
-      console.log("Method:", method);
-      console.log("Has SERP API Key:", !!serpApiKey);
-      console.log("Has Unsplash Key:", !!unsplashAccessKey);
-      console.log("Has BFL API Key:", !!bflApiKey);
-      console.log("Params:", params);
-      console.log("JSON-RPC Version:", jsonrpc);
-      console.log("Request ID:", id);
-      console.log("Headers Accept:", req.get("Accept"));
-      console.log("====================================");
-
-      // Validate JSON-RPC
-      if (jsonrpc !== "2.0") {
-        return res.json({
-          jsonrpc: "2.0",
-          error: {
-            code: -32600,
-            message: "Invalid Request: jsonrpc must be 2.0",
-          },
-          id: id,
-        });
       }
 
-      // Validate credentials
-      if (!clientId || !clientSecret) {
-        return res.json({
-          jsonrpc: "2.0",
-          error: {
-            code: -32001,
-            message: "Unauthorized: Missing clientId or clientSecret",
-          },
-          id: id,
-        });
+      for (const [key, cache] of this.caches) {
+        cache.prune();
+        if (cache.size === 0 && !this.hasSessionFor(key)) {
+          this.caches.delete(key);
+        }
       }
+    }, 60 * 1000).unref();
 
-      try {
-        // Create YouMap client with provided credentials and API keys
-        const youmapClient = createYouMapClient({
-          clientId,
-          clientSecret,
-          serpApiKey: serpApiKey as string,
-          unsplashAccessKey: unsplashAccessKey as string,
-          bflApiKey: bflApiKey as string,
-        });
-
-        switch (method) {
-          case "tools/list":
-          case "list":
-          case "list_tools":
-          case "initialize":
-          case "list_actions":
-            // Handle initialize method for MCP protocol
-            if (method === "initialize") {
-              return res.json({
-                jsonrpc: "2.0",
-                result: {
-                  protocolVersion: "2024-11-05",
-                  capabilities: {
-                    tools: {},
-                  },
-                  serverInfo: {
-                    name: "youmap-mcp",
-                    version: "1.0.0",
-                  },
-                },
-                id: id,
-              });
-            }
-
-            const tools = TOOLS.map((tool) => ({
-              name: tool.name,
-              description: tool.description,
-              inputSchema: tool.inputSchema,
-            }));
-
-            return res.json({
-              jsonrpc: "2.0",
-              result: {
-                tools: tools,
-              },
-              id: id,
-            });
-
-          case "tools/call":
-          case "call_tool":
-          case "call_action":
-            const { name, arguments: args } = params || {};
-
-            if (!name) {
-              return res.json({
-                jsonrpc: "2.0",
-                error: {
-                  code: -32602,
-                  message: "Invalid params: tool name is required",
-                },
-                id: id,
-              });
-            }
-
-            const tool = TOOLS.find((t) => t.name === name);
-
-            if (!tool) {
-              return res.json({
-                jsonrpc: "2.0",
-                error: {
-                  code: -32601,
-                  message: `Method not found: ${name}`,
-                },
-                id: id,
-              });
-            }
-
-            // Extract correlation ID from headers or generate new one
-            const correlationId = extractCorrelationId(req.headers) || uuidv4();
-
-            // Get sequence number from header or default to 1
-            const sequenceNumber = parseInt(
-              (req.headers["x-sequence-number"] as string) || "1"
-            );
-
-            console.log(
-              `Executing tool: ${name} (correlation: ${correlationId}, seq: ${sequenceNumber})`
-            );
-
-            // Execute tool and track timing
-            const startTime = Date.now();
-            let toolResult: any;
-            let toolError: any = null;
-            let success = false;
-
-            try {
-              toolResult = await tool.handler(args || {}, youmapClient);
-              success = true;
-            } catch (error) {
-              toolError = error;
-              success = false;
-              throw error; // Re-throw to be handled by outer catch
-            } finally {
-              const duration = Date.now() - startTime;
-
-              // Log to API (fire and forget - don't await)
-              logToolCallToAPI({
-                correlationId,
-                toolName: name,
-                parameters: args || {},
-                response: success ? toolResult : null,
-                error: toolError
-                  ? {
-                      message:
-                        toolError instanceof Error
-                          ? toolError.message
-                          : String(toolError),
-                      stack:
-                        toolError instanceof Error
-                          ? toolError.stack
-                          : undefined,
-                    }
-                  : null,
-                duration,
-                success,
-                sequenceNumber,
-                clientId: clientId,
-              }).catch((logError) => {
-                console.error("Logging error:", logError);
-              });
-            }
-
-            return res.json({
-              jsonrpc: "2.0",
-              result: {
-                content: [
-                  {
-                    type: "text",
-                    text:
-                      typeof toolResult === "string"
-                        ? toolResult
-                        : JSON.stringify(toolResult, null, 2),
-                  },
-                ],
-              },
-              id: id,
-            });
-
-          default:
-            return res.json({
-              jsonrpc: "2.0",
-              error: {
-                code: -32601,
-                message: `Method not found: ${method}`,
-              },
-              id: id,
-            });
-        }
-      } catch (error) {
-        console.error("MCP JSON-RPC Error:", error);
-
-        // Handle authentication errors specifically
-        if (
-          error instanceof Error &&
-          (error.message.includes("401") ||
-            error.message.includes("Unauthorized") ||
-            error.message.includes("Invalid credentials"))
-        ) {
-          return res.json({
-            jsonrpc: "2.0",
-            error: {
-              code: -32001,
-              message: "Unauthorized: Invalid YouMap credentials",
-              data: error.message,
-            },
-            id: id,
-          });
-        }
+    // JSON-RPC MCP endpoint with API key authentication
+    // URL format: /v1/mcp with X-API-Key header or apiKey query param
+    this.app.post("/v1/mcp", (req, res) =>
+      this.handleJsonRpc(req, res, apiKeyOptions(req))
+    );
 
-        return res.json({
-          jsonrpc: "2.0",
-          error: {
-            code: -32603,
-            message: "Internal error",
-            data: error instanceof Error ? error.message : "Unknown error",
-          },
-          id: id,
-        });
-      }
-    });
+    // JSON-RPC MCP endpoint - AgentKit compatible with OAuth credentials (legacy)
+    // URL format: /:clientId/:clientSecret/v1/mcp?serpApiKey=...&unsplashAccessKey=...&bflApiKey=...
+    this.app.post("/:clientId/:clientSecret/v1/mcp", (req, res) =>
+      this.handleJsonRpc(req, res, oauthOptions(req))
+    );
 
     this.app.listen(port, "0.0.0.0", () => {
       console.log(`YouMap MCP Server running on http://0.0.0.0:${port}`);
@@ -717,6 +653,9 @@ class YouMapMCPServer {
       console.log(
         `JSON-RPC MCP (OAuth): POST http://0.0.0.0:${port}/{clientId}/{clientSecret}/v1/mcp`
       );
+      console.log(
+        `Streamable HTTP MCP: initialize with Accept: text/event-stream on either endpoint, then use the Mcp-Session-Id header (GET for server-to-client stream, DELETE to end)`
+      );
       console.log(`Environment: ${process.env.NODE_ENV || "development"}`);
     });
   }
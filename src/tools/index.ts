@@ -1,14 +1,61 @@
-import { YouMapClient } from "../client.js";
+import { ListOptions, ListPage, YouMapClient } from "../client.js";
 import axios from "axios";
+import { v4 as uuidv4 } from "uuid";
+import { z } from "zod";
 import { EMOJI_SHORTNAMES } from "../data/emoji-shortnames.js";
+import { BORDER_COLORS } from "../data/border-colors.js";
+import {
+  featuresToGpx,
+  featuresToKml,
+  GeoJSONFeatureCollection,
+  postsToFeatureCollection,
+} from "../utils/export.js";
+import {
+  buildFieldsFromLabels,
+  mergeFields,
+  needsDateNormalization,
+  normalizeDateFields,
+  resolveFieldValues,
+  splitFieldsForUpdate,
+  toActionFieldDefinitions,
+  toLabelValues,
+} from "../utils/fields.js";
+import { parseImportRows } from "../utils/import.js";
+import {
+  ApiMap,
+  ApiPost,
+  ApiPostTemplate,
+  FieldDefinitions,
+  MapSummary,
+  mapUrl,
+  PostSummary,
+  toActionSummary,
+  toMapSummary,
+  toPostSummary,
+  UpdatePostTemplateInput,
+} from "../models.js";
+import { assertValidAction, validateAction } from "../utils/actions.js";
+import { geocode, reverseGeocode } from "../utils/geocoding.js";
+import { SpatialIndex, haversineDistance } from "../utils/spatial.js";
+import { parseToolArguments } from "../utils/validation.js";
 
 export interface MCPTool {
   name: string;
   description: string;
-  inputSchema: any;
+  inputSchema: z.AnyZodObject;
   handler: (args: any, client: YouMapClient) => Promise<any>;
 }
 
+// Types a tool's handler arguments from its input schema
+function defineTool<S extends z.AnyZodObject>(tool: {
+  name: string;
+  description: string;
+  inputSchema: S;
+  handler: (args: z.infer<S>, client: YouMapClient) => Promise<any>;
+}): MCPTool {
+  return tool;
+}
+
 function parseValidationErrors(errorResponse: any): string {
   if (
     !errorResponse?.data?.details?.message ||
@@ -47,88 +94,338 @@ function parseValidationErrors(errorResponse: any): string {
     .join("\n")}`;
 }
 
+/**
+ * Run another tool's handler with validated arguments, without the logging
+ * done by ToolExecutor. Used by composite tools, resources and completions.
+ */
+export async function runTool(
+  client: YouMapClient,
+  name: string,
+  args: unknown,
+): Promise<any> {
+  const tool = TOOLS.find((t) => t.name === name)!;
+  const toolArgs = parseToolArguments(tool, args);
+  return tool.handler(
+    toolArgs,
+    toolArgs.noCache ? client.withoutCache() : client,
+  );
+}
+
+async function isMapNameAvailable(
+  client: YouMapClient,
+  name: string,
+): Promise<boolean> {
+  // Other users may have taken the name since a cached answer
+  const result = await client.get(
+    `/api/v1/map/name-availability/${encodeURIComponent(name)}`,
+    undefined,
+    { noCache: true },
+  );
+  return result?.success === true;
+}
+
+async function fetchLatestActionFields(
+  client: YouMapClient,
+  actionId: number,
+): Promise<FieldDefinitions> {
+  const versions = await client.getPostTemplateVersions(actionId);
+  if (versions.length === 0) {
+    throw new Error(`No versions found for action ${actionId}`);
+  }
+  return versions[versions.length - 1].fields;
+}
+
+async function fetchAllMapPosts(
+  client: YouMapClient,
+  mapId: number,
+  filterActionIds?: number[],
+): Promise<ApiPost[]> {
+  const { items } = await client.listPosts(
+    mapId,
+    { orderBy: "recent", filterActionIds },
+    { all: true },
+  );
+  return items;
+}
+
+async function fetchAllMapActions(
+  client: YouMapClient,
+  mapId: number,
+): Promise<ApiPostTemplate[]> {
+  const { items } = await client.listPostTemplates(mapId, {}, { all: true });
+  return items;
+}
+
+type ExportFormat = "geojson" | "kml" | "gpx";
+
+/**
+ * Read a map and every post on it, optionally only those of some actions,
+ * and render them in an export format. The GeoJSON features are built once
+ * and KML and GPX are rendered from them.
+ */
+async function exportMap(
+  client: YouMapClient,
+  args: { mapId: number; filterActionIds?: number[] },
+  format: ExportFormat,
+): Promise<{
+  map: ApiMap;
+  featureCount: number;
+  content: GeoJSONFeatureCollection | string;
+}> {
+  try {
+    const map = await client.getMap(args.mapId);
+    const posts = await fetchAllMapPosts(
+      client,
+      args.mapId,
+      args.filterActionIds,
+    );
+    const actions = await fetchAllMapActions(client, args.mapId);
+    const geojson = postsToFeatureCollection(
+      posts.map((post) => ({ ...toPostSummary(post), fields: post.fields })),
+      new Map(actions.map((action) => [action.id, action.fields])),
+    );
+
+    let content: GeoJSONFeatureCollection | string;
+    if (format === "kml") {
+      content = featuresToKml(geojson, {
+        name: map.name,
+        palette: BORDER_COLORS,
+        actionColors: new Map(
+          actions
+            .filter((action) => action.borderColor)
+            .map((action) => [action.id, action.borderColor!]),
+        ),
+        defaultColor: BORDER_COLORS[0],
+      });
+    } else if (format === "gpx") {
+      content = featuresToGpx(geojson, { name: map.name });
+    } else if (format === "geojson") {
+      content = geojson;
+    } else {
+      throw new Error(`Unsupported export format: ${format}`);
+    }
+
+    return { map, featureCount: geojson.features.length, content };
+  } catch (error: any) {
+    if (error.response?.status === 401) {
+      throw new Error("Authentication failed. Please check your credentials.");
+    } else if (error.response?.status === 403) {
+      throw new Error(
+        "Access denied. You don't have permission to view posts on this map.",
+      );
+    } else if (error.response?.status === 404) {
+      throw new Error(
+        "Map not found. Please check the mapId and ensure the map exists.",
+      );
+    } else {
+      throw new Error(`Failed to export map: ${error.message}`);
+    }
+  }
+}
+
+// Most items a list tool returns with fetchAll, so one result stays readable
+const FETCH_ALL_LIMIT = 1000;
+
+const fetchAllArgument = z
+  .boolean()
+  .default(false)
+  .describe(
+    `Return every result in one response instead of a single page, up to ${FETCH_ALL_LIMIT} (limit and offset are ignored). Empty values are left out to keep the result compact.`,
+  );
+
+const noCacheArgument = z
+  .boolean()
+  .default(false)
+  .describe(
+    "Bypass cached API responses and read fresh data from YouMap (default: false)",
+  );
+
+/**
+ * One page of a list endpoint, or with args.fetchAll every item up to
+ * FETCH_ALL_LIMIT, together with the pagination info the list tools return.
+ */
+async function fetchListPage<T>(
+  list: (options: ListOptions) => Promise<ListPage<T>>,
+  args: { fetchAll?: boolean; limit?: number; offset?: number },
+): Promise<{ items: T[]; pagination: any }> {
+  if (args.fetchAll) {
+    const { items, total } = await list({
+      all: true,
+      maxItems: FETCH_ALL_LIMIT,
+    });
+    return {
+      items,
+      pagination: {
+        total,
+        returned: items.length,
+        truncated: items.length < total,
+      },
+    };
+  }
+
+  const limit = args.limit || 20;
+  const offset = args.offset || 0;
+  const { items, total } = await list({ limit, offset });
+
+  return {
+    items,
+    pagination: {
+      total,
+      limit,
+      offset,
+      hasMore: offset + limit < total,
+    },
+  };
+}
+
+// Drop null, undefined and empty array values from a list item
+function compactItem(item: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(item).filter(
+      ([, value]) =>
+        value !== null &&
+        value !== undefined &&
+        !(Array.isArray(value) && value.length === 0),
+    ),
+  );
+}
+
+/**
+ * A spatial index of the posts on a map. It lives in the client's response
+ * cache, so it is shared by the clients of one credential and dropped when a
+ * post changes.
+ */
+async function getMapSpatialIndex(
+  client: YouMapClient,
+  mapId: number,
+  refresh = false,
+): Promise<SpatialIndex<PostSummary>> {
+  const source = refresh ? client.withoutCache() : client;
+  return source.memoize(
+    `spatial-index:${mapId}`,
+    [`map:${mapId}`, "posts"],
+    async () => {
+      const posts = await fetchAllMapPosts(source, mapId);
+      return new SpatialIndex(posts.map(toPostSummary));
+    },
+  );
+}
+
+/**
+ * Check a build_map spec against the create_map, create_action and
+ * create_post schemas before anything is created. Returns every problem.
+ */
+function validateMapSpec(spec: any): string[] {
+  const errors: string[] = [];
+
+  const check = (toolName: string, args: any, where: string) => {
+    const tool = TOOLS.find((t) => t.name === toolName)!;
+    try {
+      return parseToolArguments(tool, args);
+    } catch (error: any) {
+      for (const issue of error.data?.issues || []) {
+        errors.push(`${where}.${issue.path}: ${issue.message}`);
+      }
+      return undefined;
+    }
+  };
+
+  check("create_map", spec.map, "map");
+
+  const actionNames = new Set<string>();
+  spec.actions.forEach((action: any, index: number) => {
+    const where = `actions[${index}]`;
+    if (actionNames.has(action.name)) {
+      errors.push(`${where}.name: duplicate action name "${action.name}"`);
+    }
+    actionNames.add(action.name);
+
+    const parsed = check("create_action", { ...action, mapId: 0 }, where);
+    if (parsed) {
+      errors.push(...validateAction(parsed).map((e) => `${where}: ${e}`));
+    }
+  });
+
+  spec.posts.forEach((post: any, index: number) => {
+    const where = `posts[${index}]`;
+    const { action, ...rest } = post;
+    if (!actionNames.has(action)) {
+      errors.push(`${where}.action: no action named "${action}" in actions`);
+    }
+    check("create_post", { ...rest, mapId: 0, actionId: 0 }, where);
+  });
+
+  return errors;
+}
+
 export const TOOLS: MCPTool[] = [
-  {
+  defineTool({
     name: "create_map",
     description:
       "Create a new map for a user. Maps are spaces where users can add posts, places, and organize content geographically.",
-    inputSchema: {
-      type: "object",
-      properties: {
-        name: {
-          type: "string",
-          description: "Name of the map (3-50 characters)",
-          minLength: 3,
-          maxLength: 50,
-        },
-        description: {
-          type: "string",
-          description: "Description of the map (5-500 characters, optional)",
-          minLength: 5,
-          maxLength: 500,
-        },
-        accessLevel: {
-          type: "string",
-          enum: ["public", "inviteOnly", "private"],
-          description:
-            "Access level: public (everyone can access), inviteOnly (invite specific users), private (only you)",
-          default: "public",
-        },
-        coverImageFromUrl: {
-          type: "string",
-          description:
-            "Cover image URL (e.g., http://example.com/image.jpg). To get the image URL, use another action: generate_image. Always try to include image for map.",
-        },
-        invitedUserIds: {
-          type: "array",
-          items: { type: "number" },
-          description:
-            "List of user IDs to invite (only used when accessLevel is inviteOnly)",
-        },
-        categoryIds: {
-          type: "array",
-          items: { type: "number" },
-          description:
-            "Category IDs for the map (1-3 categories, defaults to [13])",
-          minItems: 1,
-          maxItems: 3,
-          default: [13],
-        },
-        readonly: {
-          type: "boolean",
-          description:
-            "Set to true if you don't want other users to post on this map",
-          default: false,
-        },
-        boundingBox: {
-          type: "object",
-          description: "Coordinates for the initial map view",
-          properties: {
-            leftBottom: {
-              type: "object",
-              description: "Bottom-left corner coordinates",
-              properties: {
-                lat: { type: "number", description: "Latitude" },
-                lon: { type: "number", description: "Longitude" },
-              },
-              required: ["lat", "lon"],
-            },
-            rightTop: {
-              type: "object",
-              description: "Top-right corner coordinates",
-              properties: {
-                lat: { type: "number", description: "Latitude" },
-                lon: { type: "number", description: "Longitude" },
-              },
-              required: ["lat", "lon"],
-            },
-          },
-          required: ["leftBottom", "rightTop"],
-        },
-      },
-      required: ["name"],
-    },
-    handler: async (args: any, client: YouMapClient) => {
+    inputSchema: z.object({
+      name: z
+        .string()
+        .min(3)
+        .max(50)
+        .describe("Name of the map (3-50 characters)"),
+      description: z
+        .string()
+        .min(5)
+        .max(500)
+        .optional()
+        .describe("Description of the map (5-500 characters, optional)"),
+      accessLevel: z
+        .enum(["public", "inviteOnly", "private"])
+        .default("public")
+        .describe(
+          "Access level: public (everyone can access), inviteOnly (invite specific users), private (only you)",
+        ),
+      coverImageFromUrl: z
+        .string()
+        .optional()
+        .describe(
+          "Cover image URL (e.g., http://example.com/image.jpg). To get the image URL, use another action: generate_image. Always try to include image for map.",
+        ),
+      invitedUserIds: z
+        .array(z.number())
+        .optional()
+        .describe(
+          "List of user IDs to invite (only used when accessLevel is inviteOnly)",
+        ),
+      categoryIds: z
+        .array(z.number())
+        .min(1)
+        .max(3)
+        .default([13])
+        .describe(
+          "Category IDs for the map (1-3 categories, defaults to [13])",
+        ),
+      readonly: z
+        .boolean()
+        .default(false)
+        .describe(
+          "Set to true if you don't want other users to post on this map",
+        ),
+      boundingBox: z
+        .object({
+          leftBottom: z
+            .object({
+              lat: z.number().describe("Latitude"),
+              lon: z.number().describe("Longitude"),
+            })
+            .describe("Bottom-left corner coordinates"),
+          rightTop: z
+            .object({
+              lat: z.number().describe("Latitude"),
+              lon: z.number().describe("Longitude"),
+            })
+            .describe("Top-right corner coordinates"),
+        })
+        .optional()
+        .describe("Coordinates for the initial map view"),
+    }),
+    handler: async (args, client) => {
       try {
         const mapData = {
           name: args.name,
@@ -142,22 +439,15 @@ export const TOOLS: MCPTool[] = [
           contentOrigin: "PublicAPI",
         };
 
-        const result = await client.post("/api/v1/map", mapData);
+        // The key lets a create that timed out be retried without duplicating
+        const result = await client.createMap(mapData, {
+          idempotencyKey: uuidv4(),
+        });
 
         return {
           success: true,
           message: `Successfully created map: "${result.name}"`,
-          map: {
-            id: result.id,
-            name: result.name,
-            description: result.description,
-            coverImage: result.coverImage,
-            accessLevel: result.accessLevel,
-            isReadonly: result.isReadonly,
-            categoryIds: result.categoryIds,
-            createdAt: result.createdAt,
-            url: `https://youmap.com/app/${result.slug}`,
-          },
+          map: toMapSummary(result),
         };
       } catch (error: any) {
         if (error.response?.status === 401) {
@@ -176,307 +466,1100 @@ export const TOOLS: MCPTool[] = [
         }
       }
     },
-  },
-  {
-    name: "list_maps",
+  }),
+  defineTool({
+    name: "list_maps",
+    description:
+      "Retrieve a list of maps belonging to the authenticated user with pagination support.",
+    inputSchema: z.object({
+      limit: z
+        .number()
+        .min(1)
+        .max(100)
+        .default(20)
+        .describe("Maximum number of maps to return (1-100, default: 20)"),
+      offset: z
+        .number()
+        .min(0)
+        .default(0)
+        .describe("Number of maps to skip for pagination (default: 0)"),
+      fetchAll: fetchAllArgument,
+      noCache: noCacheArgument,
+    }),
+    handler: async (args, client) => {
+      try {
+        const { items, pagination } = await fetchListPage(
+          (options) => client.listMaps(options),
+          args,
+        );
+        const maps = items.map(toMapSummary);
+
+        return {
+          success: true,
+          message: `Found ${pagination.total} map(s)`,
+          pagination,
+          maps: args.fetchAll ? maps.map(compactItem) : maps,
+        };
+      } catch (error: any) {
+        if (error.response?.status === 401) {
+          throw new Error(
+            "Authentication failed. Please check your YOUMAP_API_KEY.",
+          );
+        } else if (error.response?.status === 403) {
+          throw new Error(
+            "Access denied. You don't have permission to list maps.",
+          );
+        } else {
+          console.error(error);
+          throw new Error(`Failed to list maps: ${error.message}`);
+        }
+      }
+    },
+  }),
+  defineTool({
+    name: "get_map",
+    description:
+      "Retrieve a single map by ID with all its settings, plus the map's actions (post templates) and their field definitions. Use this before update_map or create_post to see the current state instead of editing blind.",
+    inputSchema: z.object({
+      mapId: z.number().describe("ID of the map to retrieve"),
+      includeActions: z
+        .boolean()
+        .default(true)
+        .describe(
+          "Also return the map's actions with their field definitions (default: true)",
+        ),
+      noCache: noCacheArgument,
+    }),
+    handler: async (args, client) => {
+      try {
+        const map = await client.getMap(args.mapId);
+
+        const actions =
+          args.includeActions === false
+            ? undefined
+            : (await fetchAllMapActions(client, args.mapId)).map(
+                toActionSummary,
+              );
+
+        return {
+          success: true,
+          message: `Retrieved map "${map.name}"`,
+          map: {
+            ...map,
+            url: mapUrl(map.slug),
+          },
+          actions,
+        };
+      } catch (error: any) {
+        if (error.response?.status === 401) {
+          throw new Error(
+            "Authentication failed. Please check your credentials.",
+          );
+        } else if (error.response?.status === 403) {
+          throw new Error(
+            "Access denied. You don't have permission to view this map.",
+          );
+        } else if (error.response?.status === 404) {
+          throw new Error(
+            "Map not found. Please check the mapId and ensure the map exists.",
+          );
+        } else {
+          throw new Error(`Failed to get map: ${error.message}`);
+        }
+      }
+    },
+  }),
+  defineTool({
+    name: "create_post",
+    description:
+      "Create a new post on a map. Posts are content items that users can place on maps at specific geographic locations. When creating post with image, NEVER use generate_image action. Use search_image instead.",
+    inputSchema: z.object({
+      mapId: z
+        .number()
+        .describe("ID of the map where the post will be created"),
+      name: z
+        .string()
+        .max(100)
+        .optional()
+        .describe("Name/title of the post (required for most post types)"),
+      description: z
+        .string()
+        .optional()
+        .describe(
+          "Short description of the post. MUST be 500 characters or fewer — will be truncated if longer. Keep it concise: 1-2 short sentences.",
+        ),
+      latitude: z
+        .number()
+        .min(-90)
+        .max(90)
+        .optional()
+        .describe(
+          "Latitude coordinate where the post will be placed. Required unless address is provided.",
+        ),
+      longitude: z
+        .number()
+        .min(-180)
+        .max(180)
+        .optional()
+        .describe(
+          "Longitude coordinate where the post will be placed. Required unless address is provided.",
+        ),
+      actionId: z
+        .number()
+        .describe(
+          "ID of the action/template to use for this post. Always use the newest/latest version of the action when creating new posts.",
+        ),
+      address: z
+        .string()
+        .optional()
+        .describe(
+          "Optional street address or place name for the location. If latitude/longitude are omitted, the address is geocoded to coordinates (and placeId) automatically.",
+        ),
+      placeId: z
+        .string()
+        .optional()
+        .describe(
+          "Optional place ID from mapping services (Google Places, etc.)",
+        ),
+      autoAddress: z
+        .boolean()
+        .default(false)
+        .describe(
+          "If true and no address is given, look up a human-readable address for the coordinates (reverse geocoding) before creating the post",
+        ),
+      contentOrigin: z
+        .enum(["App", "PublicAPI"])
+        .default("PublicAPI")
+        .describe("Origin of the content"),
+      timezone: z
+        .string()
+        .optional()
+        .describe(
+          'IANA timezone (e.g. "Europe/Warsaw") used to read ISO dates and times without an explicit offset. Defaults to "UTC".',
+        ),
+      values: z
+        .record(z.any())
+        .optional()
+        .describe(
+          'Custom field values keyed by field label instead of fieldTypeId, e.g. {"Opening hours": "9-5", "Cuisine": ["Thai"], "Rating": 4, "Event date": "2025-09-02/2025-09-05"}. Resolved against the latest version of the action: select and option slider text is mapped to option IDs and values are checked against the constraints of each field. Date fields take ISO-8601 values ("2025-09-02", "18:30", "2025-09-02T18:30") or ranges as "start/end". Preferred over fields; both can be combined.',
+        ),
+      fields: z
+        .object({
+          textFields: z
+            .array(
+              z.object({
+                fieldTypeId: z.number().optional(),
+                text: z.string().optional(),
+              }),
+            )
+            .optional(),
+          websiteFields: z
+            .array(
+              z.object({
+                fieldTypeId: z.number().optional(),
+                text: z.string().optional(),
+              }),
+            )
+            .optional(),
+          mediaFields: z
+            .array(
+              z
+                .object({
+                  fieldTypeId: z.number().optional(),
+                  filesFromUrl: z
+                    .array(
+                      z.object({
+                        url: z.string().describe("URL of the media file"),
+                        type: z
+                          .enum(["image", "video"])
+                          .describe(
+                            "Type of media - either 'image' or 'video'",
+                          ),
+                      }),
+                    )
+                    .optional(),
+                })
+                .describe(
+                  "Pass URLs of media here to add media to post. To get images for posts, use the search_image action",
+                ),
+            )
+            .optional(),
+          ratingFields: z
+            .array(
+              z.object({
+                fieldTypeId: z.number().optional(),
+                score: z.number().min(1).max(5).optional(),
+              }),
+            )
+            .optional(),
+          dateField: z
+            .object({
+              fieldTypeId: z.number().optional(),
+              startDate: z
+                .string()
+                .nullable()
+                .optional()
+                .describe(
+                  'Date as UNIX timestamp string, e.g. "1756771200". Used when dateType is "Date" or "DateAndTime". Only the date portion is extracted.',
+                ),
+              endDate: z
+                .string()
+                .nullable()
+                .optional()
+                .describe(
+                  "End date as UNIX timestamp string. Only used when allowTimeRanges is true. Only the date portion is extracted.",
+                ),
+              startTime: z
+                .string()
+                .nullable()
+                .optional()
+                .describe(
+                  'Time as UNIX timestamp string, e.g. "1756771200". Used when dateType is "Time" or "DateAndTime". Only the time portion is extracted.',
+                ),
+              endTime: z
+                .string()
+                .nullable()
+                .optional()
+                .describe(
+                  "End time as UNIX timestamp string. Only used when allowTimeRanges is true. Only the time portion is extracted.",
+                ),
+            })
+            .optional()
+            .describe(
+              'Date/time value. Values may be UNIX timestamp strings (e.g. "1756771200") or ISO-8601 strings ("2025-09-02", "18:30", "2025-09-02T18:30"), read in timezone. The payload is reshaped to the action dateType before sending: "Date" keeps startDate/endDate, "Time" keeps startTime/endTime, "DateAndTime" keeps both; end values are only allowed when allowTimeRanges=true. Values that do not match the dateType are rejected.',
+            ),
+          selectFields: z
+            .array(
+              z.object({
+                fieldTypeId: z.number().optional(),
+                options: z.array(z.number()).optional(),
+              }),
+            )
+            .optional(),
+          valueSliderFields: z
+            .array(
+              z.object({
+                fieldTypeId: z.number().optional(),
+                value: z.number().optional(),
+              }),
+            )
+            .optional(),
+          optionSliderFields: z
+            .array(
+              z.object({
+                fieldTypeId: z.number().optional(),
+                index: z.number().optional(),
+              }),
+            )
+            .optional(),
+        })
+        .optional()
+        .describe("Custom field values based on the action template"),
+    }),
+    handler: async (args, client) => {
+      try {
+        let { latitude, longitude, placeId } = args;
+
+        if (latitude === undefined || longitude === undefined) {
+          if (!args.address) {
+            throw new Error(
+              "Either latitude and longitude or address must be provided",
+            );
+          }
+
+          const [match] = await geocode(client, args.address, { limit: 1 });
+          if (!match) {
+            throw new Error(
+              `Could not find coordinates for address "${args.address}"`,
+            );
+          }
+
+          latitude = match.latitude;
+          longitude = match.longitude;
+          placeId = placeId || match.placeId;
+        }
+
+        let address = args.address;
+
+        if (args.autoAddress && !address) {
+          const match = await reverseGeocode(
+            client,
+            Number(latitude),
+            Number(longitude),
+          );
+          address = match?.address;
+          placeId = placeId || match?.placeId;
+        }
+
+        let fields = args.fields;
+        const hasValues = args.values && Object.keys(args.values).length > 0;
+
+        if (hasValues || needsDateNormalization(fields)) {
+          const actionFields = await fetchLatestActionFields(
+            client,
+            args.actionId,
+          );
+          fields = normalizeDateFields(actionFields, fields, args.timezone);
+
+          if (hasValues) {
+            fields = mergeFields(
+              fields,
+              buildFieldsFromLabels(actionFields, args.values!, {
+                timezone: args.timezone,
+              }),
+            );
+          }
+        }
+
+        const postData = {
+          mapId: args.mapId,
+          name: args.name,
+          description: args.description
+            ? args.description.slice(0, 500)
+            : undefined,
+          lat: Number(latitude),
+          lon: Number(longitude),
+          actionId: args.actionId,
+          address,
+          placeId,
+          contentOrigin: args.contentOrigin || "PublicAPI",
+          fields,
+        };
+
+        if (isNaN(postData.lat) || isNaN(postData.lon)) {
+          throw new Error("latitude and longitude must be valid numbers");
+        }
+
+        const result = await client.createPost(postData, {
+          idempotencyKey: uuidv4(),
+        });
+
+        return {
+          success: true,
+          message: `Successfully created post: "${result.name || "Untitled"}"`,
+          post: toPostSummary(result),
+        };
+      } catch (error: any) {
+        if (error.response?.status === 401) {
+          throw new Error(
+            "Authentication failed. Please check your credentials.",
+          );
+        } else if (error.response?.status === 403) {
+          throw new Error(
+            "Access denied. You don't have permission to create posts on this map.",
+          );
+        } else if (error.response?.status === 400) {
+          const validationDetails = parseValidationErrors(error.response);
+          throw new Error(`Validation error: ${validationDetails}`);
+        } else if (error.response?.status === 404) {
+          throw new Error(
+            "Map not found. Please check the mapId and ensure the map exists.",
+          );
+        } else {
+          throw new Error(`Failed to create post: ${error.message}`);
+        }
+      }
+    },
+  }),
+  defineTool({
+    name: "import_posts",
+    description:
+      "Bulk import posts into a map from a GeoJSON FeatureCollection or CSV text. Each feature/row becomes one post created with the given action. Use mapping to tell which properties/columns hold the post name, description, address and coordinates, and which ones fill the action's custom fields (keyed by field label). Posts are created in batches and a per-row success/failure report is returned.",
+    inputSchema: z.object({
+      mapId: z
+        .number()
+        .describe("ID of the map where the posts will be created"),
+      actionId: z
+        .number()
+        .describe(
+          "ID of the action/template used for all imported posts. Field labels in mapping.fields are resolved against its latest version.",
+        ),
+      format: z
+        .enum(["geojson", "csv"])
+        .optional()
+        .describe(
+          "Format of data. Detected automatically when omitted (JSON object -> geojson, otherwise csv).",
+        ),
+      data: z
+        .string()
+        .describe(
+          "GeoJSON FeatureCollection (JSON text) with Point geometries, or CSV text with a header row",
+        ),
+      mapping: z
+        .object({
+          name: z
+            .string()
+            .optional()
+            .describe("Property/column with the post name"),
+          description: z
+            .string()
+            .optional()
+            .describe("Property/column with the post description"),
+          address: z
+            .string()
+            .optional()
+            .describe("Property/column with the street address"),
+          placeId: z
+            .string()
+            .optional()
+            .describe("Property/column with the place ID"),
+          latitude: z
+            .string()
+            .optional()
+            .describe("CSV column with the latitude (ignored for GeoJSON)"),
+          longitude: z
+            .string()
+            .optional()
+            .describe("CSV column with the longitude (ignored for GeoJSON)"),
+          fields: z
+            .record(z.string())
+            .optional()
+            .describe(
+              'Map of action field label -> property/column name, e.g. {"Opening hours": "hours", "Cuisine": "cuisine"}. Works for text, website, rating, media, value slider, option slider, select and date fields. Select options are matched by text; multiple options can be separated by ";" or "|". Dates are ISO-8601 values or "start/end" ranges.',
+            ),
+        })
+        .optional()
+        .describe(
+          "Which GeoJSON properties / CSV columns feed which post attributes. Defaults to columns named name, description, address, placeId, latitude/lat and longitude/lon/lng.",
+        ),
+      timezone: z
+        .string()
+        .optional()
+        .describe(
+          'IANA timezone (e.g. "Europe/Warsaw") used to read date columns without an explicit offset. Defaults to "UTC".',
+        ),
+      batchSize: z
+        .number()
+        .min(1)
+        .max(50)
+        .default(10)
+        .describe(
+          "Number of posts created in parallel per batch (1-50, default: 10)",
+        ),
+    }),
+    handler: async (args, client) => {
+      let rows;
+      try {
+        rows = parseImportRows(args.data, args.format, args.mapping);
+      } catch (error: any) {
+        throw new Error(`Failed to parse import data: ${error.message}`);
+      }
+
+      if (rows.length === 0) {
+        throw new Error("Import data does not contain any rows");
+      }
+
+      let actionFields: FieldDefinitions;
+      try {
+        actionFields = await fetchLatestActionFields(client, args.actionId);
+      } catch (error: any) {
+        if (error.response?.status === 401) {
+          throw new Error(
+            "Authentication failed. Please check your credentials.",
+          );
+        } else if (error.response?.status === 404) {
+          throw new Error(
+            `Action not found. Please check the actionId ${args.actionId}.`,
+          );
+        } else {
+          throw new Error(`Failed to load action fields: ${error.message}`);
+        }
+      }
+
+      const batchSize = Math.min(Math.max(args.batchSize || 10, 1), 50);
+      const results: any[] = [];
+
+      for (let i = 0; i < rows.length; i += batchSize) {
+        const batch = rows.slice(i, i + batchSize);
+
+        const batchResults = await Promise.all(
+          batch.map(async (row) => {
+            try {
+              if (row.error) {
+                throw new Error(row.error);
+              }
+              if (isNaN(row.latitude) || isNaN(row.longitude)) {
+                throw new Error("latitude and longitude must be valid numbers");
+              }
+
+              const result = await client.createPost(
+                {
+                  mapId: args.mapId,
+                  actionId: args.actionId,
+                  name: row.name,
+                  description: row.description
+                    ? String(row.description).slice(0, 500)
+                    : undefined,
+                  lat: row.latitude,
+                  lon: row.longitude,
+                  address: row.address,
+                  placeId: row.placeId,
+                  contentOrigin: "PublicAPI",
+                  fields: buildFieldsFromLabels(actionFields, row.values, {
+                    timezone: args.timezone,
+                  }),
+                },
+                { idempotencyKey: uuidv4() },
+              );
+
+              return {
+                row: row.row,
+                success: true,
+                name: row.name,
+                postId: result.id,
+              };
+            } catch (error: any) {
+              return {
+                row: row.row,
+                success: false,
+                name: row.name,
+                error:
+                  error.response?.status === 400
+                    ? parseValidationErrors(error.response)
+                    : error.response?.data?.message || error.message,
+              };
+            }
+          }),
+        );
+
+        results.push(...batchResults);
+      }
+
+      const created = results.filter((result) => result.success).length;
+      const failed = results.length - created;
+
+      return {
+        success: failed === 0,
+        message: `Imported ${created} of ${results.length} post(s) into map ${args.mapId}${
+          failed > 0 ? `, ${failed} failed` : ""
+        }`,
+        summary: {
+          total: results.length,
+          created,
+          failed,
+        },
+        results,
+      };
+    },
+  }),
+  defineTool({
+    name: "build_map",
+    description:
+      "Build a complete map in one call from a declarative spec: the map, its actions and its posts. Checks the map name, then runs create_map, create_action for each action and create_post for each post in order, passing the new map and action IDs along. Posts refer to actions by name. The whole spec is validated before anything is created. If a step fails, the new map is deleted again (onFailure: rollback) or kept (onFailure: report), and the result lists every step with whether it succeeded.",
+    inputSchema: z.object({
+      map: z
+        .object({
+          name: z.string().describe("Name of the map (3-50 characters)"),
+        })
+        .passthrough()
+        .describe(
+          "Map settings. Takes the same arguments as create_map (name, description, accessLevel, coverImageFromUrl, categoryIds, readonly, boundingBox).",
+        ),
+      actions: z
+        .array(
+          z
+            .object({
+              name: z
+                .string()
+                .describe("Action name, used by posts to refer to it"),
+            })
+            .passthrough(),
+        )
+        .default([])
+        .describe(
+          "Actions to create. Each takes the same arguments as create_action except mapId. Names must be unique.",
+        ),
+      posts: z
+        .array(
+          z
+            .object({
+              action: z
+                .string()
+                .describe("Name of the action (from actions) to use"),
+            })
+            .passthrough(),
+        )
+        .default([])
+        .describe(
+          "Posts to create. Each takes the same arguments as create_post except mapId and actionId, plus action: the name of one of the actions above.",
+        ),
+      onFailure: z
+        .enum(["rollback", "report"])
+        .default("rollback")
+        .describe(
+          "What to do when a step fails: rollback deletes the new map with everything created on it, report keeps what was created so far (default: rollback)",
+        ),
+    }),
+    handler: async (args, client) => {
+      const errors = validateMapSpec(args);
+      if (errors.length > 0) {
+        throw new Error(
+          `Invalid map spec:\n${errors.map((e) => `  - ${e}`).join("\n")}`,
+        );
+      }
+
+      let available: boolean;
+      try {
+        available = await isMapNameAvailable(client, args.map.name);
+      } catch (error: any) {
+        throw new Error(
+          `Failed to check map name availability: ${error.message}`,
+        );
+      }
+      if (!available) {
+        throw new Error(
+          `The map name "${args.map.name}" is already taken. Please choose a different name.`,
+        );
+      }
+
+      const steps: any[] = [];
+      const run = async (step: string, name: string, toolArgs: any) => {
+        try {
+          return await runTool(client, step, toolArgs);
+        } catch (error: any) {
+          steps.push({ step, name, success: false, error: error.message });
+          throw error;
+        }
+      };
+
+      let map: MapSummary | undefined;
+      const actionIds: Record<string, number> = {};
+      const postIds: number[] = [];
+
+      try {
+        map = (await run("create_map", args.map.name, args.map))
+          .map as MapSummary;
+        steps.push({
+          step: "create_map",
+          name: args.map.name,
+          success: true,
+          id: map.id,
+        });
+
+        for (const action of args.actions) {
+          const result = await run("create_action", action.name, {
+            ...action,
+            mapId: map.id,
+          });
+          actionIds[action.name] = result.action.id;
+          steps.push({
+            step: "create_action",
+            name: action.name,
+            success: true,
+            id: result.action.id,
+          });
+        }
+
+        for (const [index, post] of args.posts.entries()) {
+          const { action, ...postArgs } = post;
+          const label = String(post.name || `post ${index + 1}`);
+          const result = await run("create_post", label, {
+            ...postArgs,
+            mapId: map.id,
+            actionId: actionIds[post.action],
+          });
+          postIds.push(result.post.id);
+          steps.push({
+            step: "create_post",
+            name: label,
+            success: true,
+            id: result.post.id,
+          });
+        }
+
+        return {
+          success: true,
+          message: `Built map "${map.name}" with ${args.actions.length} action(s) and ${postIds.length} post(s)`,
+          map,
+          actionIds,
+          postIds,
+          steps,
+        };
+      } catch (error: any) {
+        const failed = steps[steps.length - 1];
+        const succeeded = steps.length - 1;
+        let message = `Failed at ${failed.step} "${failed.name}": ${error.message}.`;
+        let rolledBack = false;
+
+        if (!map) {
+          message += " Nothing was created.";
+        } else if (args.onFailure === "rollback") {
+          try {
+            await runTool(client, "delete_map", { mapId: map.id });
+            rolledBack = true;
+            message += ` Rolled back: map ${map.id} was deleted with everything created on it.`;
+          } catch (rollbackError: any) {
+            message += ` Rollback failed (${rollbackError.message}), so the ${succeeded} step(s) marked as succeeded still exist.`;
+          }
+        } else {
+          message += ` The ${succeeded} step(s) marked as succeeded were kept.`;
+        }
+
+        return {
+          success: false,
+          message,
+          rolledBack,
+          mapId: map && !rolledBack ? map.id : undefined,
+          steps,
+        };
+      }
+    },
+  }),
+  defineTool({
+    name: "duplicate_map",
+    description:
+      "Copy a map under a new name: its settings, its actions (latest published version of each) and optionally its posts. The new name is checked with check_map_name_availability first. Post field values are carried over by field label. Returns a mapping from old to new map, action and post IDs, plus any actions or posts that could not be copied.",
+    inputSchema: z.object({
+      sourceMapId: z.number().describe("ID of the map to copy"),
+      name: z
+        .string()
+        .min(3)
+        .max(50)
+        .describe("Name of the new map (3-50 characters, must be unique)"),
+      description: z
+        .string()
+        .min(5)
+        .max(500)
+        .optional()
+        .describe(
+          "Description of the new map (default: the source map's description)",
+        ),
+      accessLevel: z
+        .enum(["public", "inviteOnly", "private"])
+        .optional()
+        .describe("Access level of the new map (default: the source map's)"),
+      includePosts: z
+        .boolean()
+        .default(false)
+        .describe("Also copy the source map's posts (default: false)"),
+    }),
+    handler: async (args, client) => {
+      let source: ApiMap;
+      let sourceActions: ApiPostTemplate[];
+      let sourcePosts: ApiPost[] = [];
+
+      try {
+        if (!(await isMapNameAvailable(client, args.name))) {
+          throw new Error(
+            `The map name "${args.name}" is already taken. Please choose a different name.`,
+          );
+        }
+
+        source = await client.getMap(args.sourceMapId);
+        sourceActions = await fetchAllMapActions(client, args.sourceMapId);
+        if (args.includePosts) {
+          sourcePosts = await fetchAllMapPosts(client, args.sourceMapId);
+        }
+      } catch (error: any) {
+        if (error.response?.status === 401) {
+          throw new Error(
+            "Authentication failed. Please check your credentials.",
+          );
+        } else if (error.response?.status === 403) {
+          throw new Error(
+            "Access denied. You don't have permission to view the source map.",
+          );
+        } else if (error.response?.status === 404) {
+          throw new Error(
+            `Map not found. Please check the sourceMapId ${args.sourceMapId}.`,
+          );
+        } else if (error.response) {
+          throw new Error(`Failed to read source map: ${error.message}`);
+        }
+        throw error;
+      }
+
+      const coverImage =
+        typeof source.coverImage === "string"
+          ? source.coverImage
+          : source.coverImage?.url;
+
+      // create_map takes descriptions of 5 to 500 characters
+      const sourceDescription = source.description?.trim().slice(0, 500);
+
+      let map: ApiMap;
+      try {
+        const created = await runTool(client, "create_map", {
+          name: args.name,
+          description:
+            args.description ??
+            (sourceDescription && sourceDescription.length >= 5
+              ? sourceDescription
+              : undefined),
+          accessLevel:
+            args.accessLevel ??
+            source.accessLevel ??
+            (source.public
+              ? "public"
+              : source.inviteEnabled
+                ? "inviteOnly"
+                : "private"),
+          coverImageFromUrl: coverImage || undefined,
+          categoryIds: source.categoryIds?.length
+            ? source.categoryIds.slice(0, 3)
+            : undefined,
+          readonly: source.isReadonly ?? source.readonly,
+          boundingBox: source.boundingBox || undefined,
+        });
+        map = created.map;
+      } catch (error: any) {
+        throw new Error(`Failed to create the new map: ${error.message}`);
+      }
+
+      const idMapping = {
+        map: { [args.sourceMapId]: map.id },
+        actions: {} as Record<number, number>,
+        posts: {} as Record<number, number>,
+      };
+      const failures: any[] = [];
+      // Field definitions of the copied version, old and new, per old action ID
+      const actionFields = new Map<
+        number,
+        { source: FieldDefinitions; copy: FieldDefinitions }
+      >();
+
+      const sortedActions = [...sourceActions].sort(
+        (a, b) => (a.order ?? 0) - (b.order ?? 0),
+      );
+
+      for (const action of sortedActions) {
+        try {
+          const versions = await client.getPostTemplateVersions(action.id);
+          const version =
+            [...versions].reverse().find((v) => v.isPublished) ??
+            versions[versions.length - 1];
+          if (!version) {
+            throw new Error(`No versions found for action ${action.id}`);
+          }
+
+          const result = await runTool(client, "create_action", {
+            name: action.name,
+            emoji: action.emoji || undefined,
+            mapId: map.id,
+            borderColor: action.borderColor || undefined,
+            duration: action.duration || undefined,
+            order: action.order ?? undefined,
+            fields: toActionFieldDefinitions(version.fields),
+          });
+
+          idMapping.actions[action.id] = result.action.id;
+          actionFields.set(action.id, {
+            source: version.fields,
+            copy: await fetchLatestActionFields(client, result.action.id),
+          });
+        } catch (error: any) {
+          failures.push({
+            type: "action",
+            id: action.id,
+            name: action.name,
+            error: error.message,
+          });
+        }
+      }
+
+      const batchSize = 10;
+      for (let i = 0; i < sourcePosts.length; i += batchSize) {
+        const batch = sourcePosts.slice(i, i + batchSize);
+
+        await Promise.all(
+          batch.map(async (post) => {
+            try {
+              const fields = actionFields.get(post.actionId);
+              if (!fields) {
+                throw new Error(
+                  `Action ${post.actionId} of this post was not copied`,
+                );
+              }
+
+              // The list endpoint leaves out most field values
+              const full = await client.getPost(post.id);
+
+              const result = await client.createPost(
+                {
+                  mapId: map.id,
+                  actionId: idMapping.actions[post.actionId],
+                  name: full.name,
+                  description: full.description
+                    ? String(full.description).slice(0, 500)
+                    : undefined,
+                  lat: full.lat,
+                  lon: full.lon,
+                  address: full.address,
+                  placeId: full.placeId,
+                  contentOrigin: "PublicAPI",
+                  fields: buildFieldsFromLabels(
+                    fields.copy,
+                    toLabelValues(
+                      resolveFieldValues(fields.source, full.fields),
+                    ),
+                  ),
+                },
+                { idempotencyKey: uuidv4() },
+              );
+
+              idMapping.posts[post.id] = result.id;
+            } catch (error: any) {
+              failures.push({
+                type: "post",
+                id: post.id,
+                name: post.name,
+                error:
+                  error.response?.status === 400
+                    ? parseValidationErrors(error.response)
+                    : error.response?.data?.message || error.message,
+              });
+            }
+          }),
+        );
+      }
+
+      const actionCount = Object.keys(idMapping.actions).length;
+      const postCount = Object.keys(idMapping.posts).length;
+
+      return {
+        success: failures.length === 0,
+        message: `Copied map ${args.sourceMapId} to "${map.name}" with ${actionCount} of ${sourceActions.length} action(s)${
+          args.includePosts
+            ? ` and ${postCount} of ${sourcePosts.length} post(s)`
+            : ""
+        }`,
+        map,
+        idMapping,
+        failures,
+      };
+    },
+  }),
+  defineTool({
+    name: "list_posts",
     description:
-      "Retrieve a list of maps belonging to the authenticated user with pagination support.",
-    inputSchema: {
-      type: "object",
-      properties: {
-        limit: {
-          type: "number",
-          description: "Maximum number of maps to return (1-100, default: 20)",
-          minimum: 1,
-          maximum: 100,
-          default: 20,
-        },
-        offset: {
-          type: "number",
-          description: "Number of maps to skip for pagination (default: 0)",
-          minimum: 0,
-          default: 0,
-        },
-      },
-    },
-    handler: async (args: any, client: YouMapClient) => {
+      "Retrieve a list of posts from a specific map with pagination and filtering support.",
+    inputSchema: z.object({
+      mapId: z.number().describe("ID of the map to retrieve posts from"),
+      limit: z
+        .number()
+        .min(1)
+        .max(100)
+        .default(20)
+        .describe("Maximum number of posts to return (1-100, default: 20)"),
+      offset: z
+        .number()
+        .min(0)
+        .default(0)
+        .describe("Number of posts to skip for pagination (default: 0)"),
+      orderBy: z
+        .enum(["trending", "recent"])
+        .default("recent")
+        .describe("How to order the results (default: recent)"),
+      filterActionIds: z
+        .array(z.number())
+        .optional()
+        .describe("Filter posts by specific action IDs (optional)"),
+      fetchAll: fetchAllArgument,
+      noCache: noCacheArgument,
+    }),
+    handler: async (args, client) => {
       try {
-        const params = {
-          limit: args.limit || 20,
-          offset: args.offset || 0,
-        };
-
-        const result = await client.get("/api/v1/map", params);
+        const { items, pagination } = await fetchListPage(
+          (options) =>
+            client.listPosts(
+              args.mapId,
+              { orderBy: args.orderBy, filterActionIds: args.filterActionIds },
+              options,
+            ),
+          args,
+        );
+        const posts = items.map(toPostSummary);
 
         return {
           success: true,
-          message: `Found ${result.count} map(s)`,
-          pagination: {
-            total: result.count,
-            limit: params.limit,
-            offset: params.offset,
-            hasMore: params.offset + params.limit < result.count,
+          message: `Found ${pagination.total} post(s) on map ${args.mapId}`,
+          pagination,
+          posts: args.fetchAll ? posts.map(compactItem) : posts,
+          mapInfo: {
+            id: args.mapId,
+            url: posts[0]?.mapUrl,
           },
-          maps: result.maps.map((map: any) => ({
-            id: map.id,
-            name: map.name,
-            description: map.description,
-            coverImage: map.coverImage,
-            isReadonly: map.isReadonly,
-            public: map.public,
-            inviteEnabled: map.inviteEnabled,
-            categoryIds: map.categoryIds,
-            createdAt: map.createdAt,
-            updatedAt: map.updatedAt,
-            url: `https://youmap.com/app/${map.slug}`,
-          })),
         };
       } catch (error: any) {
         if (error.response?.status === 401) {
           throw new Error(
-            "Authentication failed. Please check your YOUMAP_API_KEY.",
+            "Authentication failed. Please check your credentials.",
           );
         } else if (error.response?.status === 403) {
           throw new Error(
-            "Access denied. You don't have permission to list maps.",
+            "Access denied. You don't have permission to view posts on this map.",
+          );
+        } else if (error.response?.status === 404) {
+          throw new Error(
+            "Map not found. Please check the mapId and ensure the map exists.",
           );
         } else {
-          console.log(error);
-          throw new Error(`Failed to list maps: ${error.message}`);
+          throw new Error(`Failed to list posts: ${error.message}`);
         }
       }
     },
-  },
-  {
-    name: "create_post",
+  }),
+  defineTool({
+    name: "get_post",
     description:
-      "Create a new post on a map. Posts are content items that users can place on maps at specific geographic locations. When creating post with image, NEVER use generate_image action. Use search_image instead.",
-    inputSchema: {
-      type: "object",
-      properties: {
-        mapId: {
-          type: "number",
-          description: "ID of the map where the post will be created",
-        },
-        name: {
-          type: "string",
-          description: "Name/title of the post (required for most post types)",
-          maxLength: 100,
-        },
-        description: {
-          type: "string",
-          description:
-            "Short description of the post. MUST be 500 characters or fewer — will be truncated if longer. Keep it concise: 1-2 short sentences.",
-          maxLength: 500,
-        },
-        latitude: {
-          type: "number",
-          description: "Latitude coordinate where the post will be placed",
-          minimum: -90,
-          maximum: 90,
-        },
-        longitude: {
-          type: "number",
-          description: "Longitude coordinate where the post will be placed",
-          minimum: -180,
-          maximum: 180,
-        },
-        actionId: {
-          type: "number",
-          description:
-            "ID of the action/template to use for this post. Always use the newest/latest version of the action when creating new posts.",
-        },
-        address: {
-          type: "string",
-          description: "Optional street address for the location",
-        },
-        placeId: {
-          type: "string",
-          description:
-            "Optional place ID from mapping services (Google Places, etc.)",
-        },
-        contentOrigin: {
-          type: "string",
-          enum: ["App", "PublicAPI"],
-          description: "Origin of the content",
-          default: "PublicAPI",
-        },
-        fields: {
-          type: "object",
-          description: "Custom field values based on the action template",
-          properties: {
-            textFields: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  fieldTypeId: { type: "number" },
-                  text: { type: "string" },
-                },
-              },
-            },
-            websiteFields: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  fieldTypeId: { type: "number" },
-                  text: { type: "string" },
-                },
-              },
-            },
-            mediaFields: {
-              type: "array",
-              items: {
-                type: "object",
-                description:
-                  "Pass URLs of media here to add media to post. To get images for posts, use the search_image action",
-                properties: {
-                  fieldTypeId: { type: "number" },
-                  filesFromUrl: {
-                    type: "array",
-                    items: {
-                      type: "object",
-                      properties: {
-                        url: {
-                          type: "string",
-                          description: "URL of the media file",
-                        },
-                        type: {
-                          type: "string",
-                          enum: ["image", "video"],
-                          description:
-                            "Type of media - either 'image' or 'video'",
-                        },
-                      },
-                      required: ["url", "type"],
-                    },
-                  },
-                },
-              },
-            },
-            ratingFields: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  fieldTypeId: { type: "number" },
-                  score: { type: "number", minimum: 1, maximum: 5 },
-                },
-              },
-            },
-            dateField: {
-              type: "object",
-              description:
-                'Date/time value. STRICT RULES per dateType — passing wrong fields causes validation errors. dateType "Date": pass startDate only (+ endDate if allowTimeRanges=true). startTime/endTime MUST be null. dateType "Time": pass startTime only (+ endTime if allowTimeRanges=true). startDate/endDate MUST be null. dateType "DateAndTime": pass startDate+startTime (+ endDate+endTime if allowTimeRanges=true). When allowTimeRanges=false, end values MUST be null. All values are UNIX timestamp strings e.g. "1756771200".',
-              properties: {
-                fieldTypeId: { type: "number" },
-                startDate: {
-                  type: "string",
-                  description:
-                    'Date as UNIX timestamp string, e.g. "1756771200". Used when dateType is "Date" or "DateAndTime". Only the date portion is extracted.',
-                },
-                endDate: {
-                  type: "string",
-                  description:
-                    'End date as UNIX timestamp string. Only used when allowTimeRanges is true. Only the date portion is extracted.',
-                },
-                startTime: {
-                  type: "string",
-                  description:
-                    'Time as UNIX timestamp string, e.g. "1756771200". Used when dateType is "Time" or "DateAndTime". Only the time portion is extracted.',
-                },
-                endTime: {
-                  type: "string",
-                  description:
-                    'End time as UNIX timestamp string. Only used when allowTimeRanges is true. Only the time portion is extracted.',
-                },
-              },
-            },
-            selectFields: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  fieldTypeId: { type: "number" },
-                  options: {
-                    type: "array",
-                    items: {
-                      type: "number",
-                    },
-                  },
-                },
-              },
-            },
-            valueSliderFields: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  fieldTypeId: { type: "number" },
-                  value: { type: "number" },
-                },
-              },
-            },
-            optionSliderFields: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  fieldTypeId: { type: "number" },
-                  index: { type: "number" },
-                },
-              },
-            },
-          },
-        },
-      },
-      required: ["mapId", "latitude", "longitude", "actionId"],
-    },
-    handler: async (args: any, client: YouMapClient) => {
+      "Retrieve a single post by ID with all custom field values resolved against its action's field definitions. Each field value includes its fieldId (needed for update_post deletedFields) and fieldTypeId (needed for updatedFields), and every image includes its ID (needed for update_post deletedImageIds).",
+    inputSchema: z.object({
+      postId: z.number().describe("ID of the post to retrieve"),
+      noCache: noCacheArgument,
+    }),
+    handler: async (args, client) => {
       try {
-        const postData = {
-          mapId: args.mapId,
-          name: args.name,
-          description: args.description
-            ? args.description.slice(0, 500)
-            : undefined,
-          lat: Number(args.latitude),
-          lon: Number(args.longitude),
-          actionId: args.actionId,
-          address: args.address,
-          placeId: args.placeId,
-          contentOrigin: args.contentOrigin || "PublicAPI",
-          fields: args.fields,
-        };
+        const post = await client.getPost(args.postId);
+        const postVersion = post.actionVersion ?? post.postTemplateVersion;
 
-        if (isNaN(postData.lat) || isNaN(postData.lon)) {
-          throw new Error("latitude and longitude must be valid numbers");
+        let action: any;
+        try {
+          const versions = await client.getPostTemplateVersions(post.actionId);
+          const version =
+            versions.find((v) => v.version === postVersion) ||
+            versions[versions.length - 1];
+          action = version && {
+            id: post.actionId,
+            name: post.actionName,
+            version: version.version,
+            latestVersion: versions[versions.length - 1].version,
+            fields: version.fields,
+          };
+        } catch (error: any) {
+          console.error(
+            `Failed to load field definitions for action ${post.actionId}:`,
+            error.message,
+          );
         }
 
-        const result = await client.post("/api/v1/post", postData);
+        const fields = resolveFieldValues(action?.fields, post.fields);
+        const images = [
+          ...(post.images || []).map((image) => ({
+            id: image.id,
+            url: image.url,
+            type: image.type,
+          })),
+          ...fields
+            .filter((field) => field.type === "mediaFields")
+            .flatMap((field) =>
+              field.value.map((file: any) => ({
+                ...file,
+                fieldId: field.fieldId,
+              })),
+            ),
+        ];
 
         return {
           success: true,
-          message: `Successfully created post: "${result.name || "Untitled"}"`,
+          message: `Retrieved post "${post.name || "Untitled"}"`,
           post: {
-            id: result.id,
-            name: result.name,
-            description: result.description,
-            latitude: result.lat,
-            longitude: result.lon,
-            mapId: result.mapId,
-            actionId: result.actionId,
-            userId: result.userId,
-            address: result.address,
-            isEditable: result.isEditable,
-            isPublic: result.isPublic,
-            isQuickPost: result.isQuickPost,
-            createdAt: result.createdAt,
-            updatedAt: result.updatedAt,
-            url: `https://youmap.com/app/${result.mapSlug}/posts/${result.slug}`,
-            mapUrl: `https://youmap.com/app/${result.mapSlug}`,
+            ...toPostSummary(post),
+            placeId: post.placeId,
+            actionVersion: postVersion,
+            images,
+            fields,
           },
+          action,
         };
       } catch (error: any) {
         if (error.response?.status === 401) {
@@ -485,113 +1568,190 @@ export const TOOLS: MCPTool[] = [
           );
         } else if (error.response?.status === 403) {
           throw new Error(
-            "Access denied. You don't have permission to create posts on this map.",
+            "Access denied. You don't have permission to view this post.",
           );
-        } else if (error.response?.status === 400) {
-          const validationDetails = parseValidationErrors(error.response);
-          throw new Error(`Validation error: ${validationDetails}`);
         } else if (error.response?.status === 404) {
           throw new Error(
-            "Map not found. Please check the mapId and ensure the map exists.",
+            "Post not found. Please check the postId and ensure the post exists.",
           );
         } else {
-          throw new Error(`Failed to create post: ${error.message}`);
+          throw new Error(`Failed to get post: ${error.message}`);
         }
       }
     },
-  },
-  {
-    name: "list_posts",
+  }),
+  defineTool({
+    name: "export_map",
     description:
-      "Retrieve a list of posts from a specific map with pagination and filtering support.",
-    inputSchema: {
-      type: "object",
-      properties: {
-        mapId: {
-          type: "number",
-          description: "ID of the map to retrieve posts from",
-        },
-        limit: {
-          type: "number",
-          description: "Maximum number of posts to return (1-100, default: 20)",
-          minimum: 1,
-          maximum: 100,
-          default: 20,
-        },
-        offset: {
-          type: "number",
-          description: "Number of posts to skip for pagination (default: 0)",
-          minimum: 0,
-          default: 0,
-        },
-        orderBy: {
-          type: "string",
-          enum: ["trending", "recent"],
-          description: "How to order the results (default: recent)",
-          default: "recent",
-        },
-        filterActionIds: {
-          type: "array",
-          items: { type: "number" },
-          description: "Filter posts by specific action IDs (optional)",
-        },
-      },
-      required: ["mapId"],
+      "Export all posts of a map as GeoJSON, KML (Google Earth) or GPX (GPS waypoints). Pages through every post on the map, so use this instead of repeated list_posts calls when the full map content is needed (e.g. for QGIS or Mapbox). Each post becomes a point with its name, description, action, emoji, address and custom field values. KML placemarks are styled with their action's borderColor; GPX waypoints carry the action emoji as symbol.",
+    inputSchema: z.object({
+      mapId: z.number().describe("ID of the map to export"),
+      format: z
+        .enum(["geojson", "kml", "gpx"])
+        .default("geojson")
+        .describe("Export format (default: geojson)"),
+      filterActionIds: z
+        .array(z.number())
+        .optional()
+        .describe("Only export posts created with these action IDs (optional)"),
+      noCache: noCacheArgument,
+    }),
+    handler: async (args, client) => {
+      const format: ExportFormat = args.format || "geojson";
+      const { map, featureCount, content } = await exportMap(
+        client,
+        args,
+        format,
+      );
+
+      return {
+        success: true,
+        message: `Exported ${featureCount} post(s) from map "${map.name}" as ${format.toUpperCase()}`,
+        format,
+        postCount: featureCount,
+        content,
+      };
+    },
+  }),
+  defineTool({
+    name: "export_map_geojson",
+    description:
+      "Export all posts of a map as a GeoJSON FeatureCollection. Same as export_map with format geojson.",
+    inputSchema: z.object({
+      mapId: z.number().describe("ID of the map to export"),
+      filterActionIds: z
+        .array(z.number())
+        .optional()
+        .describe("Only export posts created with these action IDs (optional)"),
+      noCache: noCacheArgument,
+    }),
+    handler: async (args, client) => {
+      const { map, featureCount, content } = await exportMap(
+        client,
+        args,
+        "geojson",
+      );
+
+      return {
+        success: true,
+        message: `Exported ${featureCount} post(s) from map "${map.name}"`,
+        featureCount,
+        geojson: content,
+      };
     },
-    handler: async (args: any, client: YouMapClient) => {
+  }),
+  defineTool({
+    name: "find_posts_near",
+    description:
+      "Find posts on a map within a radius of a point or inside a bounding box, sorted by distance. Filtering runs in the MCP server over all posts of the map, so use this instead of fetching every post with list_posts and computing distances yourself.",
+    inputSchema: z.object({
+      mapId: z.number().describe("ID of the map to search"),
+      center: z
+        .object({
+          lat: z.number().describe("Latitude"),
+          lon: z.number().describe("Longitude"),
+        })
+        .optional()
+        .describe(
+          "Center point for a radius search. Also used as the reference point for distance sorting in a boundingBox search.",
+        ),
+      radiusMeters: z
+        .number()
+        .min(1)
+        .optional()
+        .describe(
+          "Search radius in meters around center (e.g., 2000 for 2 km). Required when center is used without boundingBox.",
+        ),
+      boundingBox: z
+        .object({
+          leftBottom: z
+            .object({
+              lat: z.number().describe("Latitude"),
+              lon: z.number().describe("Longitude"),
+            })
+            .describe("Bottom-left corner coordinates"),
+          rightTop: z
+            .object({
+              lat: z.number().describe("Latitude"),
+              lon: z.number().describe("Longitude"),
+            })
+            .describe("Top-right corner coordinates"),
+        })
+        .optional()
+        .describe(
+          "Area to search, same shape as in create_map. Used instead of center+radiusMeters.",
+        ),
+      filterActionIds: z
+        .array(z.number())
+        .optional()
+        .describe("Only return posts created with these action IDs"),
+      limit: z
+        .number()
+        .min(1)
+        .max(100)
+        .default(20)
+        .describe("Maximum number of posts to return (1-100, default: 20)"),
+      refresh: z
+        .boolean()
+        .default(false)
+        .describe(
+          "Rebuild the cached post index for this map before searching (default: false). The index is otherwise reused until it expires with the response cache or a post changes.",
+        ),
+      noCache: noCacheArgument,
+    }),
+    handler: async (args, client) => {
+      if (!args.boundingBox && !(args.center && args.radiusMeters)) {
+        throw new Error(
+          "Either center and radiusMeters, or boundingBox must be provided",
+        );
+      }
+
       try {
-        const params: any = {
-          limit: args.limit || 20,
-          offset: args.offset || 0,
-          orderBy: args.orderBy || "recent",
+        const index = await getMapSpatialIndex(
+          client,
+          args.mapId,
+          args.refresh,
+        );
+
+        // Either the box or the center and radius are set, checked above
+        const box = args.boundingBox;
+        const center = args.center || {
+          lat: (box!.leftBottom.lat + box!.rightTop.lat) / 2,
+          lon: (box!.leftBottom.lon + box!.rightTop.lon) / 2,
         };
 
-        if (args.filterActionIds && args.filterActionIds.length > 0) {
-          params.filterActionIds = args.filterActionIds;
+        let matches = box
+          ? index.withinBoundingBox(box).map((item) => ({
+              item,
+              distance: haversineDistance(center, {
+                lat: item.latitude,
+                lon: item.longitude,
+              }),
+            }))
+          : index.withinRadius(center, args.radiusMeters!);
+
+        const { filterActionIds } = args;
+        if (filterActionIds && filterActionIds.length > 0) {
+          matches = matches.filter(({ item }) =>
+            filterActionIds.includes(item.actionId),
+          );
         }
 
-        const result = await client.get(
-          `/api/v1/map/${args.mapId}/posts`,
-          params,
-        );
+        matches.sort((a, b) => a.distance - b.distance);
+        const limit = Math.min(args.limit || 20, 100);
 
         return {
           success: true,
-          message: `Found ${result.count} post(s) on map ${args.mapId}`,
-          pagination: {
-            total: result.count,
-            limit: params.limit,
-            offset: params.offset,
-            hasMore: params.offset + params.limit < result.count,
-          },
-          posts: result.posts.map((post: any) => ({
-            id: post.id,
-            name: post.name,
-            description: post.description,
-            latitude: post.lat,
-            longitude: post.lon,
-            mapId: post.mapId,
-            userId: post.userId,
-            actionId: post.actionId,
-            actionName: post.actionName,
-            emoji: post.emoji,
-            address: post.address,
-            isEditable: post.isEditable,
-            isPublic: post.isPublic,
-            isQuickPost: post.isQuickPost,
-            voteCount: post.voteCount,
-            commentsCount: post.commentsCount,
-            categoryIds: post.categoryIds,
-            createdAt: post.createdAt,
-            updatedAt: post.updatedAt,
-            score: post.score,
-            url: `https://youmap.com/app/${post.mapSlug}/posts/${post.slug}`,
-            mapUrl: `https://youmap.com/app/${post.mapSlug}`,
+          message: `Found ${matches.length} post(s) on map ${args.mapId} ${
+            box ? "inside the bounding box" : `within ${args.radiusMeters} m`
+          }`,
+          total: matches.length,
+          searchedPosts: index.size,
+          center,
+          posts: matches.slice(0, limit).map(({ item, distance }) => ({
+            ...item,
+            distanceMeters: Math.round(distance),
           })),
-          mapInfo: {
-            id: args.mapId,
-            url: `https://youmap.com/app/${args.mapSlug}`,
-          },
         };
       } catch (error: any) {
         if (error.response?.status === 401) {
@@ -607,82 +1767,48 @@ export const TOOLS: MCPTool[] = [
             "Map not found. Please check the mapId and ensure the map exists.",
           );
         } else {
-          throw new Error(`Failed to list posts: ${error.message}`);
+          throw new Error(`Failed to find posts: ${error.message}`);
         }
       }
     },
-  },
-  {
+  }),
+  defineTool({
     name: "search_posts_by_name",
     description:
       "Search for posts by their names across all user's posts. This searches the post names (titles) specifically. Use this when you need to find posts with specific names or titles from all users, not just the logged in one.",
-    inputSchema: {
-      type: "object",
-      properties: {
-        phrase: {
-          type: "string",
-          description: "Search phrase to find in post names/titles (required)",
-        },
-        limit: {
-          type: "number",
-          description: "Maximum number of posts to return (1-100, default: 20)",
-          minimum: 1,
-          maximum: 100,
-          default: 20,
-        },
-        offset: {
-          type: "number",
-          description: "Number of posts to skip for pagination (default: 0)",
-          minimum: 0,
-          default: 0,
-        },
-      },
-      required: ["phrase"],
-    },
-    handler: async (args: any, client: YouMapClient) => {
+    inputSchema: z.object({
+      phrase: z
+        .string()
+        .describe("Search phrase to find in post names/titles (required)"),
+      limit: z
+        .number()
+        .min(1)
+        .max(100)
+        .default(20)
+        .describe("Maximum number of posts to return (1-100, default: 20)"),
+      offset: z
+        .number()
+        .min(0)
+        .default(0)
+        .describe("Number of posts to skip for pagination (default: 0)"),
+      fetchAll: fetchAllArgument,
+      noCache: noCacheArgument,
+    }),
+    handler: async (args, client) => {
       try {
-        const params: any = {
-          phrase: args.phrase,
-          limit: args.limit || 20,
-          offset: args.offset || 0,
-        };
+        const { items, pagination } = await fetchListPage(
+          (options) => client.searchPostsByName(args.phrase, options),
+          args,
+        );
 
-        const result = await client.get("/api/v1/post/search/name", params);
+        const posts = items.map(toPostSummary);
 
         return {
           success: true,
-          message: `Found ${result.count} post(s) with names matching "${args.phrase}"`,
+          message: `Found ${pagination.total} post(s) with names matching "${args.phrase}"`,
           searchQuery: args.phrase,
-          pagination: {
-            total: result.count,
-            limit: params.limit,
-            offset: params.offset,
-            hasMore: params.offset + params.limit < result.count,
-          },
-          posts: result.posts.map((post: any) => ({
-            id: post.id,
-            name: post.name,
-            description: post.description,
-            latitude: post.lat,
-            longitude: post.lon,
-            mapId: post.mapId,
-            userId: post.userId,
-            actionId: post.actionId,
-            actionName: post.actionName,
-            emoji: post.emoji,
-            address: post.address,
-            isEditable: post.isEditable,
-            isPublic: post.isPublic,
-            isQuickPost: post.isQuickPost,
-            voteCount: post.voteCount,
-            commentsCount: post.commentsCount,
-            categoryIds: post.categoryIds,
-            createdAt: post.createdAt,
-            updatedAt: post.updatedAt,
-            score: post.score,
-            url: `https://youmap.com/app/${post.mapSlug}/posts/${post.slug}`,
-            mapUrl: `https://youmap.com/app/${post.mapSlug}`,
-          })),
+          pagination,
+          posts: args.fetchAll ? posts.map(compactItem) : posts,
         };
       } catch (error: any) {
         if (error.response?.status === 401) {
@@ -697,329 +1823,252 @@ export const TOOLS: MCPTool[] = [
         }
       }
     },
-  },
-  {
+  }),
+  defineTool({
     name: "create_action",
     description:
       "Create a new action (post template) that defines the structure for posts. Actions serve as blueprints that specify what fields and content types posts can contain.",
-    inputSchema: {
-      type: "object",
-      properties: {
-        name: {
-          type: "string",
-          description: "Name of the action/post template (1-50 characters)",
-          minLength: 1,
-          maxLength: 50,
-        },
-        emoji: {
-          type: "string",
-          description:
-            "Emoji that represents this action (default: ':speech_balloon:'). Use the get_emoji_shortnames tool to find available emoji codes. Pass the emoji in shortcode format, e.g., ':tree:', ':camera:', ':fork_and_knife:'. Do not send the actual emoji character, just the shortcode string that you get from the tool.",
-          default: ":speech_balloon:",
-        },
-        mapId: {
-          type: "number",
-          description: "ID of the map this action belongs to",
-        },
-        borderColor: {
-          type: "string",
-          description:
-            "Hex color for the action border (7 characters, e.g., '#FF5733'). borderColor must be one of the following values: #7530F6, #8337EC, #E43AFF, #A86EFF, #87A2FB, #64DFDF, #FF006E, #FF63C1, #FF7D00, #FFAB00, #FFCB00, #C0E218, #00D880, #8DCCFC, #4EA6FD, #802AFF, #3E7C17, #29B23F, #1B939F, #342EAD, #8A9297, #4C5F68, #232932",
-          pattern: "^#[0-9A-Fa-f]{6}$",
-        },
-        duration: {
-          type: "string",
-          enum: [
-            "Forever",
-            "BasedOnDateField",
-            "TwoMinutes",
-            "HalfHour",
-            "OneHour",
-            "FourHours",
-            "OneDay",
-            "TwoDays",
-            "ThreeDays",
-            "SevenDays",
-          ],
-          description:
-            "How long posts created with this action remain active (default: 'Forever')",
-          default: "Forever",
-        },
-        order: {
-          type: "number",
-          description: "Display order among other actions on the map",
-        },
-        fields: {
-          type: "object",
-          description:
-            "Define the structure and fields for posts created with this action. Only 3 fields can be featured. Only 2 fields can be featured if there is a featured media field. Featured fields should be placed at the first positions on field list",
-          properties: {
-            textFields: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  label: { type: "string", description: "Field label" },
-                  placeholder: {
-                    type: "string",
-                    description: "Placeholder text",
-                  },
-                  order: { type: "number", description: "Field order" },
-                  featured: {
-                    type: "boolean",
-                    description: "Show in featured view",
-                    default: false,
-                  },
-                  required: {
-                    type: "boolean",
-                    description: "Required field",
-                    default: false,
-                  },
-                  maxLength: {
-                    type: "number",
-                    description: "Maximum text length",
-                    default: 500,
-                  },
-                },
-                required: ["label", "order", "placeholder"],
-              },
-            },
-            mediaFields: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  label: { type: "string", description: "Field label" },
-                  order: { type: "number", description: "Field order" },
-                  featured: {
-                    type: "boolean",
-                    description: "Show in featured view",
-                    default: false,
-                  },
-                  required: {
-                    type: "boolean",
-                    description: "Required field",
-                    default: false,
-                  },
-                  maxImages: {
-                    type: "number",
-                    description: "Maximum number of images",
-                    default: 5,
-                  },
-                },
-                required: ["label", "order"],
-              },
-            },
-            websiteFields: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  label: { type: "string", description: "Field label" },
-                  placeholder: {
-                    type: "string",
-                    description: "Placeholder text",
-                  },
-                  order: { type: "number", description: "Field order" },
-                  featured: {
-                    type: "boolean",
-                    description: "Show in featured view",
-                    default: false,
-                  },
-                  required: {
-                    type: "boolean",
-                    description: "Required field",
-                    default: false,
-                  },
-                  linkType: {
-                    type: "string",
-                    enum: ["Default", "YouTube"],
-                    description:
-                      "Type of website link. Use 'YouTube' for YouTube video URLs. Defaults to 'Default'.",
-                  },
-                },
-                required: ["label", "order", "placeholder"],
-              },
-            },
-            ratingFields: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  label: { type: "string", description: "Field label" },
-                  order: { type: "number", description: "Field order" },
-                  featured: {
-                    type: "boolean",
-                    description: "Show in featured view",
-                    default: false,
-                  },
-                  required: {
-                    type: "boolean",
-                    description: "Required field",
-                    default: false,
-                  },
-                  maxRating: {
-                    type: "number",
-                    description: "Maximum rating (1-10)",
-                    default: 5,
-                  },
-                },
-                required: ["label", "order"],
-              },
-            },
-            valueSliderFields: {
-              type: "array",
-              description:
-                "Value slider where people can choose a value from with a set range (min to max)",
-              items: {
-                type: "object",
-                properties: {
-                  label: { type: "string", description: "Field label" },
-                  order: { type: "number", description: "Field order" },
-                  featured: {
-                    type: "boolean",
-                    description: "Show in featured view",
-                    default: false,
-                  },
-                  required: {
-                    type: "boolean",
-                    description: "Required field",
-                    default: false,
-                  },
-                  min: {
-                    type: "number",
-                    description: "Minimum slider value",
-                  },
-                  max: {
-                    type: "number",
-                    description: "Maximum slider value",
-                  },
-                },
-                required: ["label", "order", "min", "max"],
-              },
-            },
-            optionSliderFields: {
-              type: "array",
-              description:
-                "A field where people will be able to choose options from.",
-              items: {
-                type: "object",
-                properties: {
-                  label: { type: "string", description: "Field label" },
-                  order: { type: "number", description: "Field order" },
-                  featured: {
-                    type: "boolean",
-                    description: "Show in featured view",
-                    default: false,
-                  },
-                  required: {
-                    type: "boolean",
-                    description: "Required field",
-                    default: false,
-                  },
-                  options: {
-                    type: "array",
-                    description: "Slider option labels (2-4 items)",
-                    items: {
-                      type: "string",
-                    },
-                    minItems: 2,
-                    maxItems: 4,
-                    uniqueItems: true,
-                  },
-                },
-                required: ["label", "order", "options"],
-              },
-            },
-            dateField: {
-              type: "object",
-              description:
-                'Single date/time field. dateType controls what users fill in: "Date" = date only (startDate/endDate), "Time" = time only (startTime/endTime), "DateAndTime" = both date and time fields. allowTimeRanges enables start+end (range) instead of just a single value. If action duration is BasedOnDateField, both required and allowTimeRanges must be true.',
-              properties: {
-                label: { type: "string", description: "Field label" },
-                order: { type: "number", description: "Field order" },
-                featured: {
-                  type: "boolean",
-                  description: "Show in featured view",
-                  default: false,
-                },
-                required: {
-                  type: "boolean",
-                  description: "Required field. Must be true if action duration is BasedOnDateField",
-                  default: false,
-                },
-                dateType: {
-                  type: "string",
-                  enum: ["Date", "Time", "DateAndTime"],
-                  description:
-                    '"Date" = date picker only, "Time" = time picker only, "DateAndTime" = both date and time pickers',
-                },
-                allowTimeRanges: {
-                  type: "boolean",
-                  description: "If true, users specify start+end (a range). If false, single date/time only. Must be true if action duration is BasedOnDateField",
-                  default: false,
-                },
-              },
-              required: ["label", "order", "dateType", "allowTimeRanges"],
-            },
-            selectFields: {
-              type: "array",
-              description: "Dropdown/select fields where users choose from options",
-              items: {
-                type: "object",
-                properties: {
-                  label: { type: "string", description: "Field label" },
-                  order: { type: "number", description: "Field order" },
-                  featured: {
-                    type: "boolean",
-                    description: "Show in featured view",
-                    default: false,
-                  },
-                  required: {
-                    type: "boolean",
-                    description: "Required field",
-                    default: false,
-                  },
-                  multiselect: {
-                    type: "boolean",
-                    description:
-                      "Defines if user will be able to choose multiple selections",
-                  },
-                  withEmoji: {
-                    type: "boolean",
-                    description:
-                      "Set to true if options include emojis. IMPORTANT: if true, ALL options MUST have an emoji. If false (default), NO option should have an emoji. Mismatch causes errors.",
-                    default: false,
-                  },
-                  options: {
-                    type: "array",
-                    items: {
-                      type: "object",
-                      properties: {
-                        text: {
-                          type: "string",
-                          description: "Option text (1-25 characters)",
-                        },
-                        emoji: {
-                          type: "string",
-                          description:
-                            "Emoji for this option (only if withEmoji is true). Use get_emoji_shortnames to find codes. Pass in shortcode format, e.g :smile:",
-                        },
-                      },
-                    },
-                    minItems: 2,
-                    maxItems: 30,
-                  },
-                },
-                required: ["label", "order", "multiselect", "options"],
-              },
-            },
-          },
-        },
-      },
-      required: ["name", "mapId"],
-    },
-    handler: async (args: any, client: YouMapClient) => {
+    inputSchema: z.object({
+      name: z
+        .string()
+        .min(1)
+        .max(50)
+        .describe("Name of the action/post template (1-50 characters)"),
+      emoji: z
+        .string()
+        .default(":speech_balloon:")
+        .describe(
+          "Emoji that represents this action (default: ':speech_balloon:'). Use the get_emoji_shortnames tool to find available emoji codes. Pass the emoji in shortcode format, e.g., ':tree:', ':camera:', ':fork_and_knife:'. Do not send the actual emoji character, just the shortcode string that you get from the tool.",
+        ),
+      mapId: z.number().describe("ID of the map this action belongs to"),
+      borderColor: z
+        .string()
+        .regex(/^#[0-9A-Fa-f]{6}$/)
+        .optional()
+        .describe(
+          "Hex color for the action border (7 characters, e.g., '#FF5733'). borderColor must be one of the following values: " +
+            BORDER_COLORS.join(", "),
+        ),
+      duration: z
+        .enum([
+          "Forever",
+          "BasedOnDateField",
+          "TwoMinutes",
+          "HalfHour",
+          "OneHour",
+          "FourHours",
+          "OneDay",
+          "TwoDays",
+          "ThreeDays",
+          "SevenDays",
+        ])
+        .default("Forever")
+        .describe(
+          "How long posts created with this action remain active (default: 'Forever')",
+        ),
+      order: z
+        .number()
+        .optional()
+        .describe("Display order among other actions on the map"),
+      fields: z
+        .object({
+          textFields: z
+            .array(
+              z.object({
+                label: z.string().describe("Field label"),
+                placeholder: z.string().describe("Placeholder text"),
+                order: z.number().describe("Field order"),
+                featured: z
+                  .boolean()
+                  .default(false)
+                  .describe("Show in featured view"),
+                required: z.boolean().default(false).describe("Required field"),
+                maxLength: z
+                  .number()
+                  .default(500)
+                  .describe("Maximum text length"),
+              }),
+            )
+            .optional(),
+          mediaFields: z
+            .array(
+              z.object({
+                label: z.string().describe("Field label"),
+                order: z.number().describe("Field order"),
+                featured: z
+                  .boolean()
+                  .default(false)
+                  .describe("Show in featured view"),
+                required: z.boolean().default(false).describe("Required field"),
+                maxImages: z
+                  .number()
+                  .default(5)
+                  .describe("Maximum number of images"),
+              }),
+            )
+            .optional(),
+          websiteFields: z
+            .array(
+              z.object({
+                label: z.string().describe("Field label"),
+                placeholder: z.string().describe("Placeholder text"),
+                order: z.number().describe("Field order"),
+                featured: z
+                  .boolean()
+                  .default(false)
+                  .describe("Show in featured view"),
+                required: z.boolean().default(false).describe("Required field"),
+                linkType: z
+                  .enum(["Default", "YouTube"])
+                  .optional()
+                  .describe(
+                    "Type of website link. Use 'YouTube' for YouTube video URLs. Defaults to 'Default'.",
+                  ),
+              }),
+            )
+            .optional(),
+          ratingFields: z
+            .array(
+              z.object({
+                label: z.string().describe("Field label"),
+                order: z.number().describe("Field order"),
+                featured: z
+                  .boolean()
+                  .default(false)
+                  .describe("Show in featured view"),
+                required: z.boolean().default(false).describe("Required field"),
+                maxRating: z
+                  .number()
+                  .default(5)
+                  .describe("Maximum rating (1-10)"),
+              }),
+            )
+            .optional(),
+          valueSliderFields: z
+            .array(
+              z.object({
+                label: z.string().describe("Field label"),
+                order: z.number().describe("Field order"),
+                featured: z
+                  .boolean()
+                  .default(false)
+                  .describe("Show in featured view"),
+                required: z.boolean().default(false).describe("Required field"),
+                min: z.number().describe("Minimum slider value"),
+                max: z.number().describe("Maximum slider value"),
+              }),
+            )
+            .optional()
+            .describe(
+              "Value slider where people can choose a value from with a set range (min to max)",
+            ),
+          optionSliderFields: z
+            .array(
+              z.object({
+                label: z.string().describe("Field label"),
+                order: z.number().describe("Field order"),
+                featured: z
+                  .boolean()
+                  .default(false)
+                  .describe("Show in featured view"),
+                required: z.boolean().default(false).describe("Required field"),
+                options: z
+                  .array(z.string())
+                  .min(2)
+                  .max(4)
+                  .describe("Slider option labels (2-4 items)"),
+              }),
+            )
+            .optional()
+            .describe(
+              "A field where people will be able to choose options from.",
+            ),
+          dateField: z
+            .object({
+              label: z.string().describe("Field label"),
+              order: z.number().describe("Field order"),
+              featured: z
+                .boolean()
+                .default(false)
+                .describe("Show in featured view"),
+              required: z
+                .boolean()
+                .default(false)
+                .describe(
+                  "Required field. Must be true if action duration is BasedOnDateField",
+                ),
+              dateType: z
+                .enum(["Date", "Time", "DateAndTime"])
+                .describe(
+                  '"Date" = date picker only, "Time" = time picker only, "DateAndTime" = both date and time pickers',
+                ),
+              allowTimeRanges: z
+                .boolean()
+                .default(false)
+                .describe(
+                  "If true, users specify start+end (a range). If false, single date/time only. Must be true if action duration is BasedOnDateField",
+                ),
+            })
+            .optional()
+            .describe(
+              'Single date/time field. dateType controls what users fill in: "Date" = date only (startDate/endDate), "Time" = time only (startTime/endTime), "DateAndTime" = both date and time fields. allowTimeRanges enables start+end (range) instead of just a single value. If action duration is BasedOnDateField, both required and allowTimeRanges must be true.',
+            ),
+          selectFields: z
+            .array(
+              z.object({
+                label: z.string().describe("Field label"),
+                order: z.number().describe("Field order"),
+                featured: z
+                  .boolean()
+                  .default(false)
+                  .describe("Show in featured view"),
+                required: z.boolean().default(false).describe("Required field"),
+                multiselect: z
+                  .boolean()
+                  .describe(
+                    "Defines if user will be able to choose multiple selections",
+                  ),
+                withEmoji: z
+                  .boolean()
+                  .default(false)
+                  .describe(
+                    "Set to true if options include emojis. IMPORTANT: if true, ALL options MUST have an emoji. If false (default), NO option should have an emoji. Mismatch causes errors.",
+                  ),
+                options: z
+                  .array(
+                    z.object({
+                      text: z
+                        .string()
+                        .optional()
+                        .describe("Option text (1-25 characters)"),
+                      emoji: z
+                        .string()
+                        .optional()
+                        .describe(
+                          "Emoji for this option (only if withEmoji is true). Use get_emoji_shortnames to find codes. Pass in shortcode format, e.g :smile:",
+                        ),
+                    }),
+                  )
+                  .min(2)
+                  .max(30),
+              }),
+            )
+            .optional()
+            .describe("Dropdown/select fields where users choose from options"),
+        })
+        .optional()
+        .describe(
+          "Define the structure and fields for posts created with this action. Only 3 fields can be featured. Only 2 fields can be featured if there is a featured media field. Featured fields should be placed at the first positions on field list",
+        ),
+    }),
+    handler: async (args, client) => {
+      assertValidAction({
+        emoji: args.emoji,
+        borderColor: args.borderColor,
+        duration: args.duration,
+        fields: args.fields,
+      });
+
       try {
         const actionData = {
           name: args.name,
@@ -1031,26 +2080,14 @@ export const TOOLS: MCPTool[] = [
           fields: args.fields,
         };
 
-        const result = await client.post("/api/v1/post-template", actionData);
+        const result = await client.createPostTemplate(actionData, {
+          idempotencyKey: uuidv4(),
+        });
 
         return {
           success: true,
           message: `Successfully created action: "${result.name}"`,
-          action: {
-            id: result.id,
-            name: result.name,
-            emoji: result.emoji,
-            mapId: result.mapId,
-            borderColor: result.borderColor,
-            duration: result.duration,
-            order: result.order,
-            isDisabled: result.isDisabled,
-            createdAt: result.createdAt,
-            updatedAt: result.updatedAt,
-            fields: result.fields,
-            url: `https://youmap.com/action/${result.id}`,
-            mapUrl: `https://youmap.com/app/${result.mapSlug}`,
-          },
+          action: toActionSummary(result),
         };
       } catch (error: any) {
         if (error.response?.status === 401) {
@@ -1073,83 +2110,52 @@ export const TOOLS: MCPTool[] = [
         }
       }
     },
-  },
-  {
+  }),
+  defineTool({
     name: "list_actions",
     description:
       "Retrieve a list of actions (post templates) from a specific map. Actions define the structure and fields available for creating posts.",
-    inputSchema: {
-      type: "object",
-      properties: {
-        mapId: {
-          type: "number",
-          description: "ID of the map to retrieve actions from",
-        },
-        limit: {
-          type: "number",
-          description:
-            "Maximum number of actions to return (1-100, default: 20)",
-          minimum: 1,
-          maximum: 100,
-          default: 20,
-        },
-        offset: {
-          type: "number",
-          description: "Number of actions to skip for pagination (default: 0)",
-          minimum: 0,
-          default: 0,
-        },
-        phrase: {
-          type: "string",
-          description: "Search phrase to filter actions by name",
-        },
-      },
-      required: ["mapId"],
-    },
-    handler: async (args: any, client: YouMapClient) => {
+    inputSchema: z.object({
+      mapId: z.number().describe("ID of the map to retrieve actions from"),
+      limit: z
+        .number()
+        .min(1)
+        .max(100)
+        .default(20)
+        .describe("Maximum number of actions to return (1-100, default: 20)"),
+      offset: z
+        .number()
+        .min(0)
+        .default(0)
+        .describe("Number of actions to skip for pagination (default: 0)"),
+      phrase: z
+        .string()
+        .optional()
+        .describe("Search phrase to filter actions by name"),
+      fetchAll: fetchAllArgument,
+      noCache: noCacheArgument,
+    }),
+    handler: async (args, client) => {
       try {
-        const params: any = {
-          limit: args.limit || 20,
-          offset: args.offset || 0,
-        };
-
-        if (args.phrase) {
-          params.phrase = args.phrase;
-        }
-
-        const result = await client.get(
-          `/api/v1/map/${args.mapId}/post-templates`,
-          params,
+        const { items, pagination } = await fetchListPage(
+          (options) =>
+            client.listPostTemplates(
+              args.mapId,
+              { phrase: args.phrase },
+              options,
+            ),
+          args,
         );
+        const actions = items.map(toActionSummary);
 
         return {
           success: true,
-          message: `Found ${result.count} action(s) on map ${args.mapId}`,
-          pagination: {
-            total: result.count,
-            limit: params.limit,
-            offset: params.offset,
-            hasMore: params.offset + params.limit < result.count,
-          },
-          actions: result.postTemplates.map((action: any) => ({
-            id: action.id,
-            name: action.name,
-            emoji: action.emoji,
-            mapId: action.mapId,
-            borderColor: action.borderColor,
-            duration: action.duration,
-            order: action.order,
-            isDisabled: action.isDisabled,
-            createdAt: action.createdAt,
-            updatedAt: action.updatedAt,
-            fields: action.fields,
-            version: action.latestVersion,
-            url: `https://youmap.com/action/${action.id}`,
-            mapUrl: `https://youmap.com/app/${action.mapSlug}`,
-          })),
+          message: `Found ${pagination.total} action(s) on map ${args.mapId}`,
+          pagination,
+          actions: args.fetchAll ? actions.map(compactItem) : actions,
           mapInfo: {
             id: args.mapId,
-            url: `https://youmap.com/app/${args.mapSlug}`,
+            url: actions[0]?.mapUrl,
           },
         };
       } catch (error: any) {
@@ -1166,340 +2172,330 @@ export const TOOLS: MCPTool[] = [
             "Map not found. Please check the mapId and ensure the map exists.",
           );
         } else {
-          throw new Error(`Failed to list actions: ${error.message}`);
-        }
-      }
-    },
-  },
-  {
-    name: "update_action",
-    description:
-      "Update an existing action (post template). You should always update the newest/latest version of an action. Use get_action_versions to find the latest version number first if needed.",
-    inputSchema: {
-      type: "object",
-      properties: {
-        actionId: {
-          type: "number",
-          description: "ID of the action to update",
-        },
-        version: {
-          type: "number",
-          description:
-            "Version number to update (should be the latest version). Get this from get_action_versions if needed.",
-        },
-        name: {
-          type: "string",
-          description: "New name of the action/post template (1-50 characters)",
-          minLength: 1,
-          maxLength: 50,
-        },
-        emoji: {
-          type: "string",
-          description:
-            "New emoji that represents this action. Use the get_emoji_shortnames tool to find available emoji codes.",
-        },
-        borderColor: {
-          type: "string",
-          description:
-            "New hex color for the action border (7 characters, e.g., '#FF5733')",
-          pattern: "^#[0-9A-Fa-f]{6}$",
-        },
-        duration: {
-          type: "string",
-          enum: [
-            "Forever",
-            "BasedOnDateField",
-            "TwoMinutes",
-            "HalfHour",
-            "OneHour",
-            "FourHours",
-            "OneDay",
-            "TwoDays",
-            "ThreeDays",
-            "SevenDays",
-          ],
-          description: "How long posts created with this action remain active",
-        },
-        autoPublish: {
-          type: "boolean",
-          description:
-            "Whether to automatically publish the updated version (default: false)",
-          default: false,
-        },
-        fields: {
-          type: "object",
-          description:
-            "Define the structure and fields for posts created with this action. Only 3 fields can be featured. Only 2 fields can be featured if there is a featured media field. Featured fields should be placed at the first positions on field list",
-          properties: {
-            textFields: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  label: { type: "string", description: "Field label" },
-                  placeholder: {
-                    type: "string",
-                    description: "Placeholder text",
-                  },
-                  order: { type: "number", description: "Field order" },
-                  featured: {
-                    type: "boolean",
-                    description: "Show in featured view",
-                    default: false,
-                  },
-                  required: {
-                    type: "boolean",
-                    description: "Required field",
-                    default: false,
-                  },
-                  maxLength: {
-                    type: "number",
-                    description: "Maximum text length",
-                    default: 500,
-                  },
-                },
-                required: ["label", "order", "placeholder"],
-              },
-            },
-            mediaFields: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  label: { type: "string", description: "Field label" },
-                  order: { type: "number", description: "Field order" },
-                  featured: {
-                    type: "boolean",
-                    description: "Show in featured view",
-                    default: false,
-                  },
-                  required: {
-                    type: "boolean",
-                    description: "Required field",
-                    default: false,
-                  },
-                  maxImages: {
-                    type: "number",
-                    description: "Maximum number of images",
-                    default: 5,
-                  },
-                },
-                required: ["label", "order"],
-              },
-            },
-            websiteFields: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  label: { type: "string", description: "Field label" },
-                  placeholder: {
-                    type: "string",
-                    description: "Placeholder text",
-                  },
-                  order: { type: "number", description: "Field order" },
-                  featured: {
-                    type: "boolean",
-                    description: "Show in featured view",
-                    default: false,
-                  },
-                  required: {
-                    type: "boolean",
-                    description: "Required field",
-                    default: false,
-                  },
-                  linkType: {
-                    type: "string",
-                    enum: ["Default", "YouTube"],
-                    description:
-                      "Type of website link. Use 'YouTube' for YouTube video URLs. Defaults to 'Default'.",
-                  },
-                },
-                required: ["label", "order", "placeholder"],
-              },
-            },
-            ratingFields: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  label: { type: "string", description: "Field label" },
-                  order: { type: "number", description: "Field order" },
-                  featured: {
-                    type: "boolean",
-                    description: "Show in featured view",
-                    default: false,
-                  },
-                  required: {
-                    type: "boolean",
-                    description: "Required field",
-                    default: false,
-                  },
-                  maxRating: {
-                    type: "number",
-                    description: "Maximum rating (1-10)",
-                    default: 5,
-                  },
-                },
-                required: ["label", "order"],
-              },
-            },
-            valueSliderFields: {
-              type: "array",
-              description:
-                "Value slider where people can choose a value from with a set range (min to max)",
-              items: {
-                type: "object",
-                properties: {
-                  label: { type: "string", description: "Field label" },
-                  order: { type: "number", description: "Field order" },
-                  featured: {
-                    type: "boolean",
-                    description: "Show in featured view",
-                    default: false,
-                  },
-                  required: {
-                    type: "boolean",
-                    description: "Required field",
-                    default: false,
-                  },
-                  min: {
-                    type: "number",
-                    description: "Minimum slider value",
-                  },
-                  max: {
-                    type: "number",
-                    description: "Maximum slider value",
-                  },
-                },
-                required: ["label", "order", "min", "max"],
-              },
-            },
-            optionSliderFields: {
-              type: "array",
-              description:
-                "A field where people will be able to choose options from.",
-              items: {
-                type: "object",
-                properties: {
-                  label: { type: "string", description: "Field label" },
-                  order: { type: "number", description: "Field order" },
-                  featured: {
-                    type: "boolean",
-                    description: "Show in featured view",
-                    default: false,
-                  },
-                  required: {
-                    type: "boolean",
-                    description: "Required field",
-                    default: false,
-                  },
-                  options: {
-                    type: "array",
-                    description: "Slider option labels (2-4 items)",
-                    items: {
-                      type: "string",
-                    },
-                    minItems: 2,
-                    maxItems: 4,
-                    uniqueItems: true,
-                  },
-                },
-                required: ["label", "order", "options"],
-              },
-            },
-            dateField: {
-              type: "object",
-              description:
-                'Single date/time field. dateType controls what users fill in: "Date" = date only (startDate/endDate), "Time" = time only (startTime/endTime), "DateAndTime" = both date and time fields. allowTimeRanges enables start+end (range) instead of just a single value. If action duration is BasedOnDateField, both required and allowTimeRanges must be true.',
-              properties: {
-                label: { type: "string", description: "Field label" },
-                order: { type: "number", description: "Field order" },
-                featured: {
-                  type: "boolean",
-                  description: "Show in featured view",
-                  default: false,
-                },
-                required: {
-                  type: "boolean",
-                  description: "Required field. Must be true if action duration is BasedOnDateField",
-                  default: false,
-                },
-                dateType: {
-                  type: "string",
-                  enum: ["Date", "Time", "DateAndTime"],
-                  description:
-                    '"Date" = date picker only, "Time" = time picker only, "DateAndTime" = both date and time pickers',
-                },
-                allowTimeRanges: {
-                  type: "boolean",
-                  description: "If true, users specify start+end (a range). If false, single date/time only. Must be true if action duration is BasedOnDateField",
-                  default: false,
-                },
-              },
-              required: ["label", "order", "dateType", "allowTimeRanges"],
-            },
-            selectFields: {
-              type: "array",
-              description: "Dropdown/select fields where users choose from options",
-              items: {
-                type: "object",
-                properties: {
-                  label: { type: "string", description: "Field label" },
-                  order: { type: "number", description: "Field order" },
-                  featured: {
-                    type: "boolean",
-                    description: "Show in featured view",
-                    default: false,
-                  },
-                  required: {
-                    type: "boolean",
-                    description: "Required field",
-                    default: false,
-                  },
-                  multiselect: {
-                    type: "boolean",
-                    description:
-                      "Defines if user will be able to choose multiple selections",
-                  },
-                  withEmoji: {
-                    type: "boolean",
-                    description:
-                      "Set to true if options include emojis. IMPORTANT: if true, ALL options MUST have an emoji. If false (default), NO option should have an emoji. Mismatch causes errors.",
-                    default: false,
-                  },
-                  options: {
-                    type: "array",
-                    items: {
-                      type: "object",
-                      properties: {
-                        text: {
-                          type: "string",
-                          description: "Option text (1-25 characters)",
-                        },
-                        emoji: {
-                          type: "string",
-                          description:
-                            "Emoji for this option (only if withEmoji is true). Use get_emoji_shortnames to find codes. Pass in shortcode format, e.g :smile:",
-                        },
-                      },
-                    },
-                    minItems: 2,
-                    maxItems: 30,
-                  },
-                },
-                required: ["label", "order", "multiselect", "options"],
-              },
-            },
-          },
-        },
-      },
-      required: ["actionId", "version", "fields"],
+          throw new Error(`Failed to list actions: ${error.message}`);
+        }
+      }
+    },
+  }),
+  defineTool({
+    name: "get_action_versions",
+    description:
+      "Retrieve all versions of an action (post template). Use this to find the latest version number before calling update_action. Each version includes its number, publish state and field definitions.",
+    inputSchema: z.object({
+      actionId: z
+        .number()
+        .describe("ID of the action to retrieve versions for"),
+      noCache: noCacheArgument,
+    }),
+    handler: async (args, client) => {
+      try {
+        const versions = await client.getPostTemplateVersions(args.actionId);
+
+        if (versions.length === 0) {
+          throw new Error(`No versions found for action ${args.actionId}`);
+        }
+
+        const latestVersion = versions[versions.length - 1].version;
+
+        return {
+          success: true,
+          message: `Found ${versions.length} version(s) of action ${args.actionId}. Latest version is ${latestVersion}.`,
+          actionId: args.actionId,
+          latestVersion,
+          versions: versions.map((version) => ({
+            version: version.version,
+            isPublished: version.isPublished,
+            publishedAt: version.publishedAt,
+            isLatest: version.version === latestVersion,
+            fields: version.fields,
+          })),
+        };
+      } catch (error: any) {
+        if (error.response?.status === 401) {
+          throw new Error(
+            "Authentication failed. Please check your credentials.",
+          );
+        } else if (error.response?.status === 403) {
+          throw new Error(
+            "Access denied. You don't have permission to view this action.",
+          );
+        } else if (error.response?.status === 404) {
+          throw new Error(
+            `Action not found. Please check the actionId ${args.actionId}.`,
+          );
+        } else {
+          throw new Error(`Failed to get action versions: ${error.message}`);
+        }
+      }
     },
-    handler: async (args: any, client: YouMapClient) => {
+  }),
+  defineTool({
+    name: "update_action",
+    description:
+      "Update an existing action (post template). You should always update the newest/latest version of an action. Use get_action_versions to find the latest version number first if needed.",
+    inputSchema: z.object({
+      actionId: z.number().describe("ID of the action to update"),
+      version: z
+        .number()
+        .optional()
+        .describe(
+          "Version number to update (should be the latest version). Get this from get_action_versions if needed. If omitted, the latest version is resolved automatically.",
+        ),
+      name: z
+        .string()
+        .min(1)
+        .max(50)
+        .optional()
+        .describe("New name of the action/post template (1-50 characters)"),
+      emoji: z
+        .string()
+        .optional()
+        .describe(
+          "New emoji that represents this action. Use the get_emoji_shortnames tool to find available emoji codes.",
+        ),
+      borderColor: z
+        .string()
+        .regex(/^#[0-9A-Fa-f]{6}$/)
+        .optional()
+        .describe(
+          "New hex color for the action border (7 characters, e.g., '#FF5733'). borderColor must be one of the following values: " +
+            BORDER_COLORS.join(", "),
+        ),
+      duration: z
+        .enum([
+          "Forever",
+          "BasedOnDateField",
+          "TwoMinutes",
+          "HalfHour",
+          "OneHour",
+          "FourHours",
+          "OneDay",
+          "TwoDays",
+          "ThreeDays",
+          "SevenDays",
+        ])
+        .optional()
+        .describe("How long posts created with this action remain active"),
+      autoPublish: z
+        .boolean()
+        .default(false)
+        .describe(
+          "Whether to automatically publish the updated version (default: false)",
+        ),
+      fields: z
+        .object({
+          textFields: z
+            .array(
+              z.object({
+                label: z.string().describe("Field label"),
+                placeholder: z.string().describe("Placeholder text"),
+                order: z.number().describe("Field order"),
+                featured: z
+                  .boolean()
+                  .default(false)
+                  .describe("Show in featured view"),
+                required: z.boolean().default(false).describe("Required field"),
+                maxLength: z
+                  .number()
+                  .default(500)
+                  .describe("Maximum text length"),
+              }),
+            )
+            .optional(),
+          mediaFields: z
+            .array(
+              z.object({
+                label: z.string().describe("Field label"),
+                order: z.number().describe("Field order"),
+                featured: z
+                  .boolean()
+                  .default(false)
+                  .describe("Show in featured view"),
+                required: z.boolean().default(false).describe("Required field"),
+                maxImages: z
+                  .number()
+                  .default(5)
+                  .describe("Maximum number of images"),
+              }),
+            )
+            .optional(),
+          websiteFields: z
+            .array(
+              z.object({
+                label: z.string().describe("Field label"),
+                placeholder: z.string().describe("Placeholder text"),
+                order: z.number().describe("Field order"),
+                featured: z
+                  .boolean()
+                  .default(false)
+                  .describe("Show in featured view"),
+                required: z.boolean().default(false).describe("Required field"),
+                linkType: z
+                  .enum(["Default", "YouTube"])
+                  .optional()
+                  .describe(
+                    "Type of website link. Use 'YouTube' for YouTube video URLs. Defaults to 'Default'.",
+                  ),
+              }),
+            )
+            .optional(),
+          ratingFields: z
+            .array(
+              z.object({
+                label: z.string().describe("Field label"),
+                order: z.number().describe("Field order"),
+                featured: z
+                  .boolean()
+                  .default(false)
+                  .describe("Show in featured view"),
+                required: z.boolean().default(false).describe("Required field"),
+                maxRating: z
+                  .number()
+                  .default(5)
+                  .describe("Maximum rating (1-10)"),
+              }),
+            )
+            .optional(),
+          valueSliderFields: z
+            .array(
+              z.object({
+                label: z.string().describe("Field label"),
+                order: z.number().describe("Field order"),
+                featured: z
+                  .boolean()
+                  .default(false)
+                  .describe("Show in featured view"),
+                required: z.boolean().default(false).describe("Required field"),
+                min: z.number().describe("Minimum slider value"),
+                max: z.number().describe("Maximum slider value"),
+              }),
+            )
+            .optional()
+            .describe(
+              "Value slider where people can choose a value from with a set range (min to max)",
+            ),
+          optionSliderFields: z
+            .array(
+              z.object({
+                label: z.string().describe("Field label"),
+                order: z.number().describe("Field order"),
+                featured: z
+                  .boolean()
+                  .default(false)
+                  .describe("Show in featured view"),
+                required: z.boolean().default(false).describe("Required field"),
+                options: z
+                  .array(z.string())
+                  .min(2)
+                  .max(4)
+                  .describe("Slider option labels (2-4 items)"),
+              }),
+            )
+            .optional()
+            .describe(
+              "A field where people will be able to choose options from.",
+            ),
+          dateField: z
+            .object({
+              label: z.string().describe("Field label"),
+              order: z.number().describe("Field order"),
+              featured: z
+                .boolean()
+                .default(false)
+                .describe("Show in featured view"),
+              required: z
+                .boolean()
+                .default(false)
+                .describe(
+                  "Required field. Must be true if action duration is BasedOnDateField",
+                ),
+              dateType: z
+                .enum(["Date", "Time", "DateAndTime"])
+                .describe(
+                  '"Date" = date picker only, "Time" = time picker only, "DateAndTime" = both date and time pickers',
+                ),
+              allowTimeRanges: z
+                .boolean()
+                .default(false)
+                .describe(
+                  "If true, users specify start+end (a range). If false, single date/time only. Must be true if action duration is BasedOnDateField",
+                ),
+            })
+            .optional()
+            .describe(
+              'Single date/time field. dateType controls what users fill in: "Date" = date only (startDate/endDate), "Time" = time only (startTime/endTime), "DateAndTime" = both date and time fields. allowTimeRanges enables start+end (range) instead of just a single value. If action duration is BasedOnDateField, both required and allowTimeRanges must be true.',
+            ),
+          selectFields: z
+            .array(
+              z.object({
+                label: z.string().describe("Field label"),
+                order: z.number().describe("Field order"),
+                featured: z
+                  .boolean()
+                  .default(false)
+                  .describe("Show in featured view"),
+                required: z.boolean().default(false).describe("Required field"),
+                multiselect: z
+                  .boolean()
+                  .describe(
+                    "Defines if user will be able to choose multiple selections",
+                  ),
+                withEmoji: z
+                  .boolean()
+                  .default(false)
+                  .describe(
+                    "Set to true if options include emojis. IMPORTANT: if true, ALL options MUST have an emoji. If false (default), NO option should have an emoji. Mismatch causes errors.",
+                  ),
+                options: z
+                  .array(
+                    z.object({
+                      text: z
+                        .string()
+                        .optional()
+                        .describe("Option text (1-25 characters)"),
+                      emoji: z
+                        .string()
+                        .optional()
+                        .describe(
+                          "Emoji for this option (only if withEmoji is true). Use get_emoji_shortnames to find codes. Pass in shortcode format, e.g :smile:",
+                        ),
+                    }),
+                  )
+                  .min(2)
+                  .max(30),
+              }),
+            )
+            .optional()
+            .describe("Dropdown/select fields where users choose from options"),
+        })
+        .describe(
+          "Define the structure and fields for posts created with this action. Only 3 fields can be featured. Only 2 fields can be featured if there is a featured media field. Featured fields should be placed at the first positions on field list",
+        ),
+    }),
+    handler: async (args, client) => {
+      assertValidAction(
+        {
+          emoji: args.emoji,
+          borderColor: args.borderColor,
+          duration: args.duration,
+          fields: args.fields,
+        },
+        { partial: true },
+      );
+
       try {
-        const updateData: any = {
-          version: args.version,
+        let version = args.version;
+
+        if (version === undefined || version === null) {
+          const versions = await client.getPostTemplateVersions(args.actionId);
+          if (versions.length === 0) {
+            throw new Error(`No versions found for action ${args.actionId}`);
+          }
+          version = versions[versions.length - 1].version;
+        }
+
+        const updateData: UpdatePostTemplateInput = {
+          version,
           fields: args.fields,
           autoPublish: args.autoPublish || false,
         };
@@ -1509,31 +2505,19 @@ export const TOOLS: MCPTool[] = [
         if (args.borderColor) updateData.borderColor = args.borderColor;
         if (args.duration) updateData.duration = args.duration;
 
-        const result = await client.put(
-          `/api/v1/post-template/${args.actionId}/v/${args.version}`,
+        const result = await client.updatePostTemplate(
+          args.actionId,
           updateData,
         );
 
         return {
           success: true,
-          message: `Successfully updated action ${args.actionId} version ${args.version}`,
+          message: `Successfully updated action ${args.actionId} version ${version}`,
           action: {
-            id: result.id,
-            name: result.name,
-            emoji: result.emoji,
-            mapId: result.mapId,
-            borderColor: result.borderColor,
-            duration: result.duration,
-            order: result.order,
-            isDisabled: result.isDisabled,
-            createdAt: result.createdAt,
-            updatedAt: result.updatedAt,
-            fields: result.fields,
+            ...toActionSummary(result),
             version: result.version,
             isPublished: result.isPublished,
             publishedAt: result.publishedAt,
-            url: `https://youmap.com/action/${result.id}`,
-            mapUrl: `https://youmap.com/app/${result.mapSlug}`,
           },
         };
       } catch (error: any) {
@@ -1550,340 +2534,376 @@ export const TOOLS: MCPTool[] = [
           throw new Error(`Validation error: ${validationDetails}`);
         } else if (error.response?.status === 404) {
           throw new Error(
-            `Action not found. Please check the actionId ${args.actionId} and version ${args.version}.`,
+            `Action not found. Please check the actionId ${args.actionId} and version ${args.version ?? "latest"}.`,
           );
         } else {
           throw new Error(`Failed to update action: ${error.message}`);
         }
       }
     },
-  },
-  {
+  }),
+  defineTool({
     name: "update_post",
     description:
       "Update an existing post. You can modify the post's content, location, fields, and other properties.",
-    inputSchema: {
-      type: "object",
-      properties: {
-        postId: {
-          type: "number",
-          description: "ID of the post to update",
-        },
-        name: {
-          type: "string",
-          description: "New name/title of the post",
-          maxLength: 100,
-        },
-        description: {
-          type: "string",
-          description:
-            "New description of the post. MUST be 500 characters or fewer — will be truncated if longer. Keep it concise: 1-2 short sentences.",
-          maxLength: 500,
-        },
-        latitude: {
-          type: "number",
-          description: "New latitude coordinate for the post",
-          minimum: -90,
-          maximum: 90,
-        },
-        longitude: {
-          type: "number",
-          description: "New longitude coordinate for the post",
-          minimum: -180,
-          maximum: 180,
-        },
-        actionId: {
-          type: "number",
-          description: "New action/template ID to use for this post",
-        },
-        address: {
-          type: "string",
-          description: "New address for the location",
-        },
-        placeId: {
-          type: "string",
-          description: "New place ID from mapping services",
-        },
-        deletedImageIds: {
-          type: "array",
-          items: { type: "number" },
-          description: "Array of image IDs to delete from the post",
-        },
-        createdFields: {
-          type: "object",
-          description: "Added fields",
-          properties: {
-            textFields: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  fieldTypeId: { type: "number" },
-                  text: { type: "string" },
-                },
-              },
-            },
-            websiteFields: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  fieldTypeId: { type: "number" },
-                  text: { type: "string" },
-                },
-              },
-            },
-            mediaFields: {
-              type: "array",
-              items: {
-                type: "object",
-                description:
-                  "Pass URLs of media here to add media to post. To get images for posts, use the search_image action",
-                properties: {
-                  fieldTypeId: { type: "number" },
-                  filesFromUrl: {
-                    type: "array",
-                    items: {
-                      type: "object",
-                      properties: {
-                        url: {
-                          type: "string",
-                          description: "URL of the media file",
-                        },
-                        type: {
-                          type: "string",
-                          enum: ["image", "video"],
-                          description:
+    inputSchema: z.object({
+      postId: z.number().describe("ID of the post to update"),
+      name: z
+        .string()
+        .max(100)
+        .optional()
+        .describe("New name/title of the post"),
+      description: z
+        .string()
+        .optional()
+        .describe(
+          "New description of the post. MUST be 500 characters or fewer — will be truncated if longer. Keep it concise: 1-2 short sentences.",
+        ),
+      latitude: z
+        .number()
+        .min(-90)
+        .max(90)
+        .optional()
+        .describe("New latitude coordinate for the post"),
+      longitude: z
+        .number()
+        .min(-180)
+        .max(180)
+        .optional()
+        .describe("New longitude coordinate for the post"),
+      actionId: z
+        .number()
+        .optional()
+        .describe("New action/template ID to use for this post"),
+      address: z.string().optional().describe("New address for the location"),
+      placeId: z
+        .string()
+        .optional()
+        .describe("New place ID from mapping services"),
+      autoAddress: z
+        .boolean()
+        .default(false)
+        .describe(
+          "If true and no address is given, look up a human-readable address for the new latitude/longitude (reverse geocoding). Requires latitude and longitude.",
+        ),
+      deletedImageIds: z
+        .array(z.number())
+        .optional()
+        .describe("Array of image IDs to delete from the post"),
+      timezone: z
+        .string()
+        .optional()
+        .describe(
+          'IANA timezone (e.g. "Europe/Warsaw") used to read ISO dates and times without an explicit offset. Defaults to "UTC".',
+        ),
+      values: z
+        .record(z.any())
+        .optional()
+        .describe(
+          'Field values to set, keyed by field label instead of fieldTypeId, e.g. {"Opening hours": "9-5", "Cuisine": ["Thai"]}. Resolved against the latest version of the post action (or actionId if given): values for fields the post already has go to updatedFields, the rest to createdFields. Select option text is mapped to option IDs and values are checked against the constraints of each field. Date fields take ISO-8601 values or "start/end" ranges.',
+        ),
+      createdFields: z
+        .object({
+          textFields: z
+            .array(
+              z.object({
+                fieldTypeId: z.number().optional(),
+                text: z.string().optional(),
+              }),
+            )
+            .optional(),
+          websiteFields: z
+            .array(
+              z.object({
+                fieldTypeId: z.number().optional(),
+                text: z.string().optional(),
+              }),
+            )
+            .optional(),
+          mediaFields: z
+            .array(
+              z
+                .object({
+                  fieldTypeId: z.number().optional(),
+                  filesFromUrl: z
+                    .array(
+                      z.object({
+                        url: z.string().describe("URL of the media file"),
+                        type: z
+                          .enum(["image", "video"])
+                          .describe(
                             "Type of media - either 'image' or 'video'",
-                        },
-                      },
-                      required: ["url", "type"],
-                    },
-                  },
-                },
-              },
-            },
-            ratingFields: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  fieldTypeId: { type: "number" },
-                  score: { type: "number", minimum: 1, maximum: 5 },
-                },
-              },
-            },
-            dateField: {
-              type: "array",
-              description:
-                'Date/time values. STRICT RULES per dateType — passing wrong fields causes errors. "Date": startDate only (+ endDate if allowTimeRanges), startTime/endTime MUST be null. "Time": startTime only (+ endTime if allowTimeRanges), startDate/endDate MUST be null. "DateAndTime": startDate+startTime (+ endDate+endTime if allowTimeRanges). When allowTimeRanges=false, end values MUST be null. All values are UNIX timestamp strings.',
-              items: {
-                type: "object",
-                properties: {
-                  fieldTypeId: { type: "number" },
-                  startDate: {
-                    type: "string",
-                    description:
-                      'Date as UNIX timestamp string, e.g. "1756771200". Used when dateType is "Date" or "DateAndTime".',
-                  },
-                  endDate: {
-                    type: "string",
-                    description:
-                      'End date as UNIX timestamp string. Only when allowTimeRanges is true.',
-                  },
-                  startTime: {
-                    type: "string",
-                    description:
-                      'Time as UNIX timestamp string, e.g. "1756771200". Used when dateType is "Time" or "DateAndTime".',
-                  },
-                  endTime: {
-                    type: "string",
-                    description:
-                      'End time as UNIX timestamp string. Only when allowTimeRanges is true.',
-                  },
-                },
-              },
-            },
-            selectFields: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  fieldTypeId: { type: "number" },
-                  options: {
-                    type: "array",
-                    items: {
-                      type: "number",
-                    },
-                  },
-                },
-              },
-            },
-            valueSliderFields: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  fieldTypeId: { type: "number" },
-                  value: { type: "number" },
-                },
-              },
-            },
-            optionSliderFields: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  fieldTypeId: { type: "number" },
-                  index: { type: "number" },
-                },
-              },
-            },
-          },
-        },
-        updatedFields: {
-          type: "object",
-          description: "Custom field values based on the action template",
-          properties: {
-            textFields: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  fieldTypeId: { type: "number" },
-                  value: { type: "string" },
-                },
-              },
-            },
-            websiteFields: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  fieldTypeId: { type: "number" },
-                  text: { type: "string" },
-                },
-              },
-            },
-            mediaFields: {
-              type: "array",
-              items: {
-                type: "object",
-                description:
+                          ),
+                      }),
+                    )
+                    .optional(),
+                })
+                .describe(
                   "Pass URLs of media here to add media to post. To get images for posts, use the search_image action",
-                properties: {
-                  fieldTypeId: { type: "number" },
-                  filesFromUrl: {
-                    type: "array",
-                    items: {
-                      type: "object",
-                      properties: {
-                        url: {
-                          type: "string",
-                          description: "URL of the media file",
-                        },
-                        type: {
-                          type: "string",
-                          enum: ["image", "video"],
-                          description:
+                ),
+            )
+            .optional(),
+          ratingFields: z
+            .array(
+              z.object({
+                fieldTypeId: z.number().optional(),
+                score: z.number().min(1).max(5).optional(),
+              }),
+            )
+            .optional(),
+          dateField: z
+            .array(
+              z.object({
+                fieldTypeId: z.number().optional(),
+                startDate: z
+                  .string()
+                  .nullable()
+                  .optional()
+                  .describe(
+                    'Date as UNIX timestamp string, e.g. "1756771200". Used when dateType is "Date" or "DateAndTime".',
+                  ),
+                endDate: z
+                  .string()
+                  .nullable()
+                  .optional()
+                  .describe(
+                    "End date as UNIX timestamp string. Only when allowTimeRanges is true.",
+                  ),
+                startTime: z
+                  .string()
+                  .nullable()
+                  .optional()
+                  .describe(
+                    'Time as UNIX timestamp string, e.g. "1756771200". Used when dateType is "Time" or "DateAndTime".',
+                  ),
+                endTime: z
+                  .string()
+                  .nullable()
+                  .optional()
+                  .describe(
+                    "End time as UNIX timestamp string. Only when allowTimeRanges is true.",
+                  ),
+              }),
+            )
+            .optional()
+            .describe(
+              'Date/time values as UNIX timestamp strings or ISO-8601 strings ("2025-09-02", "18:30", "2025-09-02T18:30"), read in timezone. Reshaped to the action dateType before sending: "Date" keeps startDate/endDate, "Time" keeps startTime/endTime, "DateAndTime" keeps both; end values are only allowed when allowTimeRanges=true.',
+            ),
+          selectFields: z
+            .array(
+              z.object({
+                fieldTypeId: z.number().optional(),
+                options: z.array(z.number()).optional(),
+              }),
+            )
+            .optional(),
+          valueSliderFields: z
+            .array(
+              z.object({
+                fieldTypeId: z.number().optional(),
+                value: z.number().optional(),
+              }),
+            )
+            .optional(),
+          optionSliderFields: z
+            .array(
+              z.object({
+                fieldTypeId: z.number().optional(),
+                index: z.number().optional(),
+              }),
+            )
+            .optional(),
+        })
+        .optional()
+        .describe("Added fields"),
+      updatedFields: z
+        .object({
+          textFields: z
+            .array(
+              z.object({
+                fieldTypeId: z.number().optional(),
+                value: z.string().optional(),
+              }),
+            )
+            .optional(),
+          websiteFields: z
+            .array(
+              z.object({
+                fieldTypeId: z.number().optional(),
+                text: z.string().optional(),
+              }),
+            )
+            .optional(),
+          mediaFields: z
+            .array(
+              z
+                .object({
+                  fieldTypeId: z.number().optional(),
+                  filesFromUrl: z
+                    .array(
+                      z.object({
+                        url: z.string().describe("URL of the media file"),
+                        type: z
+                          .enum(["image", "video"])
+                          .describe(
                             "Type of media - either 'image' or 'video'",
-                        },
-                      },
-                      required: ["url", "type"],
-                    },
-                  },
-                },
-              },
-            },
-            ratingFields: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  fieldTypeId: { type: "number" },
-                  score: { type: "number", minimum: 1, maximum: 5 },
-                },
-              },
-            },
-            dateField: {
-              type: "array",
-              description:
-                'Date/time values. STRICT RULES per dateType — passing wrong fields causes errors. "Date": startDate only (+ endDate if allowTimeRanges), startTime/endTime MUST be null. "Time": startTime only (+ endTime if allowTimeRanges), startDate/endDate MUST be null. "DateAndTime": startDate+startTime (+ endDate+endTime if allowTimeRanges). When allowTimeRanges=false, end values MUST be null. All values are UNIX timestamp strings.',
-              items: {
-                type: "object",
-                properties: {
-                  fieldTypeId: { type: "number" },
-                  startDate: {
-                    type: "string",
-                    description:
-                      'Date as UNIX timestamp string, e.g. "1756771200". Used when dateType is "Date" or "DateAndTime".',
-                  },
-                  endDate: {
-                    type: "string",
-                    description:
-                      'End date as UNIX timestamp string. Only when allowTimeRanges is true.',
-                  },
-                  startTime: {
-                    type: "string",
-                    description:
-                      'Time as UNIX timestamp string, e.g. "1756771200". Used when dateType is "Time" or "DateAndTime".',
-                  },
-                  endTime: {
-                    type: "string",
-                    description:
-                      'End time as UNIX timestamp string. Only when allowTimeRanges is true.',
-                  },
-                },
-              },
-            },
-            selectFields: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  fieldTypeId: { type: "number" },
-                  options: {
-                    type: "array",
-                    items: {
-                      type: "number",
-                    },
-                  },
-                },
-              },
-            },
-            valueSliderFields: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  fieldTypeId: { type: "number" },
-                  value: { type: "number" },
-                },
-              },
-            },
-            optionSliderFields: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  fieldTypeId: { type: "number" },
-                  index: { type: "number" },
-                },
-              },
-            },
-          },
-        },
-        deletedFields: {
-          type: "array",
-          items: { type: "number" },
-          description: "Array of field IDs to delete from the post",
-        },
-      },
-      required: ["postId"],
-    },
-    handler: async (args: any, client: YouMapClient) => {
+                          ),
+                      }),
+                    )
+                    .optional(),
+                })
+                .describe(
+                  "Pass URLs of media here to add media to post. To get images for posts, use the search_image action",
+                ),
+            )
+            .optional(),
+          ratingFields: z
+            .array(
+              z.object({
+                fieldTypeId: z.number().optional(),
+                score: z.number().min(1).max(5).optional(),
+              }),
+            )
+            .optional(),
+          dateField: z
+            .array(
+              z.object({
+                fieldTypeId: z.number().optional(),
+                startDate: z
+                  .string()
+                  .nullable()
+                  .optional()
+                  .describe(
+                    'Date as UNIX timestamp string, e.g. "1756771200". Used when dateType is "Date" or "DateAndTime".',
+                  ),
+                endDate: z
+                  .string()
+                  .nullable()
+                  .optional()
+                  .describe(
+                    "End date as UNIX timestamp string. Only when allowTimeRanges is true.",
+                  ),
+                startTime: z
+                  .string()
+                  .nullable()
+                  .optional()
+                  .describe(
+                    'Time as UNIX timestamp string, e.g. "1756771200". Used when dateType is "Time" or "DateAndTime".',
+                  ),
+                endTime: z
+                  .string()
+                  .nullable()
+                  .optional()
+                  .describe(
+                    "End time as UNIX timestamp string. Only when allowTimeRanges is true.",
+                  ),
+              }),
+            )
+            .optional()
+            .describe(
+              'Date/time values as UNIX timestamp strings or ISO-8601 strings ("2025-09-02", "18:30", "2025-09-02T18:30"), read in timezone. Reshaped to the action dateType before sending: "Date" keeps startDate/endDate, "Time" keeps startTime/endTime, "DateAndTime" keeps both; end values are only allowed when allowTimeRanges=true.',
+            ),
+          selectFields: z
+            .array(
+              z.object({
+                fieldTypeId: z.number().optional(),
+                options: z.array(z.number()).optional(),
+              }),
+            )
+            .optional(),
+          valueSliderFields: z
+            .array(
+              z.object({
+                fieldTypeId: z.number().optional(),
+                value: z.number().optional(),
+              }),
+            )
+            .optional(),
+          optionSliderFields: z
+            .array(
+              z.object({
+                fieldTypeId: z.number().optional(),
+                index: z.number().optional(),
+              }),
+            )
+            .optional(),
+        })
+        .optional()
+        .describe("Custom field values based on the action template"),
+      deletedFields: z
+        .array(z.number())
+        .optional()
+        .describe("Array of field IDs to delete from the post"),
+    }),
+    handler: async (args, client) => {
       try {
-        const { postId, ...updateData } = args;
+        const { postId, autoAddress, values, timezone, ...updateData } = args;
+        const hasValues = values && Object.keys(values).length > 0;
+
+        if (
+          hasValues ||
+          needsDateNormalization(updateData.createdFields) ||
+          needsDateNormalization(updateData.updatedFields)
+        ) {
+          const post = await client.getPost(postId);
+          const actionFields = await fetchLatestActionFields(
+            client,
+            updateData.actionId ?? post.actionId,
+          );
+
+          updateData.createdFields = normalizeDateFields(
+            actionFields,
+            updateData.createdFields,
+            timezone,
+          );
+          updateData.updatedFields = normalizeDateFields(
+            actionFields,
+            updateData.updatedFields,
+            timezone,
+          );
+
+          if (hasValues) {
+            const existingFieldTypeIds = new Set(
+              resolveFieldValues(undefined, post.fields).map(
+                (field) => field.fieldTypeId,
+              ),
+            );
+            const { createdFields, updatedFields } = splitFieldsForUpdate(
+              buildFieldsFromLabels(actionFields, values, { timezone }),
+              existingFieldTypeIds,
+            );
+
+            if (Object.keys(createdFields).length > 0) {
+              updateData.createdFields = mergeFields(
+                updateData.createdFields,
+                createdFields,
+              );
+            }
+            if (Object.keys(updatedFields).length > 0) {
+              updateData.updatedFields = mergeFields(
+                updateData.updatedFields,
+                updatedFields,
+              );
+            }
+          }
+        }
+
+        if (autoAddress && !updateData.address) {
+          if (
+            updateData.latitude === undefined ||
+            updateData.longitude === undefined
+          ) {
+            throw new Error("autoAddress requires latitude and longitude");
+          }
+
+          const match = await reverseGeocode(
+            client,
+            Number(updateData.latitude),
+            Number(updateData.longitude),
+          );
+          updateData.address = match?.address;
+          updateData.placeId = updateData.placeId || match?.placeId;
+        }
 
         if (updateData.description) {
           updateData.description = updateData.description.slice(0, 500);
@@ -1893,13 +2913,11 @@ export const TOOLS: MCPTool[] = [
           Object.entries(updateData).filter(([, value]) => value !== undefined),
         );
 
-        const response = await client.patch(
-          `/api/v2/post/${postId}`,
-          cleanUpdateData,
-        );
+        const post = await client.updatePost(postId, cleanUpdateData);
         return {
           success: true,
-          data: response.data,
+          message: `Successfully updated post: "${post.name || "Untitled"}"`,
+          post: toPostSummary(post),
         };
       } catch (error: any) {
         if (error.response?.status === 401) {
@@ -1922,46 +2940,37 @@ export const TOOLS: MCPTool[] = [
         }
       }
     },
-  },
-  {
+  }),
+  defineTool({
     name: "generate_image",
     description:
       "Generate an AI image using FLUX PRO 1.1 model based on a text prompt. This tool directly integrates with the Black Forest Labs API to create high-quality, cinematic-style images with automatic prompt enhancement. Requires BFL_API_KEY environment variable to be configured. Should be used as fallback only, the main recommended tool for images is search_image",
-    inputSchema: {
-      type: "object",
-      properties: {
-        prompt: {
-          type: "string",
-          description:
-            "Text prompt describing the image you want to generate. The prompt will be enhanced with cinematic photography styling automatically.",
-          minLength: 1,
-          maxLength: 1000,
-        },
-        width: {
-          type: "number",
-          description: "Width of the generated image in pixels (default: 1024)",
-          minimum: 256,
-          maximum: 2048,
-          default: 1024,
-        },
-        height: {
-          type: "number",
-          description:
-            "Height of the generated image in pixels (default: 1024)",
-          minimum: 256,
-          maximum: 2048,
-          default: 1024,
-        },
-        outputFormat: {
-          type: "string",
-          enum: ["jpeg", "png"],
-          description: "Output format for the generated image (default: jpeg)",
-          default: "jpeg",
-        },
-      },
-      required: ["prompt"],
-    },
-    handler: async (args: any, client: YouMapClient) => {
+    inputSchema: z.object({
+      prompt: z
+        .string()
+        .min(1)
+        .max(1000)
+        .describe(
+          "Text prompt describing the image you want to generate. The prompt will be enhanced with cinematic photography styling automatically.",
+        ),
+      width: z
+        .number()
+        .min(256)
+        .max(2048)
+        .default(1024)
+        .describe("Width of the generated image in pixels (default: 1024)"),
+      height: z
+        .number()
+        .min(256)
+        .max(2048)
+        .default(1024)
+        .describe("Height of the generated image in pixels (default: 1024)"),
+      outputFormat: z
+        .enum(["jpeg", "png"])
+        .default("jpeg")
+        .describe("Output format for the generated image (default: jpeg)"),
+    }),
+    handler: async (args, client) => {
       const {
         prompt,
         width = 1024,
@@ -2123,25 +3132,21 @@ export const TOOLS: MCPTool[] = [
         }
       }
     },
-  },
-  {
+  }),
+  defineTool({
     name: "search_image",
     description:
       "Search for existing images using SerpAPI and return a high-quality image URL. Main tool for images within the Youmap ecosystem. This tool searches Google Images, filters results for quality, validates accessibility, and falls back to Unsplash if needed. Requires SERP_API_KEY and UNSPLASH_ACCESS_KEY environment variables to be configured.",
-    inputSchema: {
-      type: "object",
-      properties: {
-        query: {
-          type: "string",
-          description:
-            "Search query for the image (e.g., 'mountain landscape', 'coffee shop interior', 'vintage car')",
-          minLength: 1,
-          maxLength: 200,
-        },
-      },
-      required: ["query"],
-    },
-    handler: async (args: any, client: YouMapClient) => {
+    inputSchema: z.object({
+      query: z
+        .string()
+        .min(1)
+        .max(200)
+        .describe(
+          "Search query for the image (e.g., 'mountain landscape', 'coffee shop interior', 'vintage car')",
+        ),
+    }),
+    handler: async (args, client) => {
       const { query } = args;
 
       const serpApiKey = client.serpApiKey;
@@ -2503,26 +3508,17 @@ export const TOOLS: MCPTool[] = [
         }
       }
     },
-  },
-  {
+  }),
+  defineTool({
     name: "delete_action",
     description:
       "Delete an existing action (post template) permanently. This action cannot be undone. The action must be owned by the authenticated user and must be removable (not in use by posts).",
-    inputSchema: {
-      type: "object",
-      properties: {
-        actionId: {
-          type: "number",
-          description: "ID of the action to delete",
-        },
-      },
-      required: ["actionId"],
-    },
-    handler: async (args: any, client: YouMapClient) => {
+    inputSchema: z.object({
+      actionId: z.number().describe("ID of the action to delete"),
+    }),
+    handler: async (args, client) => {
       try {
-        const result = await client.delete(
-          `/api/v1/post-template/${args.actionId}`,
-        );
+        const result = await client.deletePostTemplate(args.actionId);
 
         if (result.success) {
           return {
@@ -2555,24 +3551,17 @@ export const TOOLS: MCPTool[] = [
         }
       }
     },
-  },
-  {
+  }),
+  defineTool({
     name: "delete_map",
     description:
       "Delete an existing map permanently. This action cannot be undone. The map must be owned by the authenticated user. All posts, actions, and associated data on the map will be removed.",
-    inputSchema: {
-      type: "object",
-      properties: {
-        mapId: {
-          type: "number",
-          description: "ID of the map to delete",
-        },
-      },
-      required: ["mapId"],
-    },
-    handler: async (args: any, client: YouMapClient) => {
+    inputSchema: z.object({
+      mapId: z.number().describe("ID of the map to delete"),
+    }),
+    handler: async (args, client) => {
       try {
-        const result = await client.delete(`/api/v1/map/${args.mapId}`);
+        const result = await client.deleteMap(args.mapId);
 
         if (result.success) {
           return {
@@ -2605,30 +3594,17 @@ export const TOOLS: MCPTool[] = [
         }
       }
     },
-  },
-  {
+  }),
+  defineTool({
     name: "delete_post",
     description:
       "Delete an existing post permanently. This action cannot be undone. The post must be owned by the authenticated user or you must have delete permissions on the map.",
-    inputSchema: {
-      type: "object",
-      properties: {
-        postId: {
-          type: "number",
-          description: "ID of the post to delete",
-        },
-      },
-      required: ["postId"],
-    },
-    handler: async (args: any, client: YouMapClient) => {
+    inputSchema: z.object({
+      postId: z.number().describe("ID of the post to delete"),
+    }),
+    handler: async (args, client) => {
       try {
-        // Validate input
-        if (!args.postId || typeof args.postId !== "number") {
-          throw new Error("Post ID is required and must be a number");
-        }
-
-        // Make API request to delete the post
-        const response = await client.delete(`/api/v1/post/${args.postId}`);
+        await client.deletePost(args.postId);
 
         return {
           success: true,
@@ -2663,94 +3639,75 @@ export const TOOLS: MCPTool[] = [
         throw new Error(`Network error: ${error.message}`);
       }
     },
-  },
-  {
+  }),
+  defineTool({
     name: "update_map",
     description:
       "Update an existing map's properties such as name, description, access level, categories, and other settings. The map must be owned by the authenticated user.",
-    inputSchema: {
-      type: "object",
-      properties: {
-        mapId: {
-          type: "number",
-          description: "ID of the map to update",
-        },
-        name: {
-          type: "string",
-          description: "New name of the map (3-50 characters)",
-          minLength: 3,
-          maxLength: 50,
-        },
-        description: {
-          type: "string",
-          description: "New description of the map (5-500 characters)",
-          minLength: 5,
-          maxLength: 500,
-        },
-        accessLevel: {
-          type: "string",
-          enum: ["public", "inviteOnly", "private"],
-          description:
-            "Access level: public (everyone can access), inviteOnly (invite specific users), private (only you)",
-        },
-        coverImageFromUrl: {
-          type: "string",
-          description:
-            "New cover image URL (e.g., http://example.com/image.jpg). To get the image URL, use generate_image or search_image actions.",
-        },
-        invitedUserIds: {
-          type: "array",
-          items: { type: "number" },
-          description:
-            "List of user IDs to invite (only used when accessLevel is inviteOnly)",
-        },
-        categoryIds: {
-          type: "array",
-          items: { type: "number" },
-          description: "Category IDs for the map (1-3 categories)",
-          minItems: 1,
-          maxItems: 3,
-        },
-        readonly: {
-          type: "boolean",
-          description:
-            "Set to true if you don't want other users to post on this map",
-        },
-        boundingBox: {
-          type: "object",
-          description: "Coordinates for the map view",
-          properties: {
-            leftBottom: {
-              type: "object",
-              description: "Bottom-left corner coordinates",
-              properties: {
-                lat: { type: "number", description: "Latitude" },
-                lon: { type: "number", description: "Longitude" },
-              },
-              required: ["lat", "lon"],
-            },
-            rightTop: {
-              type: "object",
-              description: "Top-right corner coordinates",
-              properties: {
-                lat: { type: "number", description: "Latitude" },
-                lon: { type: "number", description: "Longitude" },
-              },
-              required: ["lat", "lon"],
-            },
-          },
-          required: ["leftBottom", "rightTop"],
-        },
-      },
-      required: ["mapId"],
-    },
-    handler: async (args: any, client: YouMapClient) => {
+    inputSchema: z.object({
+      mapId: z.number().describe("ID of the map to update"),
+      name: z
+        .string()
+        .min(3)
+        .max(50)
+        .optional()
+        .describe("New name of the map (3-50 characters)"),
+      description: z
+        .string()
+        .min(5)
+        .max(500)
+        .optional()
+        .describe("New description of the map (5-500 characters)"),
+      accessLevel: z
+        .enum(["public", "inviteOnly", "private"])
+        .optional()
+        .describe(
+          "Access level: public (everyone can access), inviteOnly (invite specific users), private (only you)",
+        ),
+      coverImageFromUrl: z
+        .string()
+        .optional()
+        .describe(
+          "New cover image URL (e.g., http://example.com/image.jpg). To get the image URL, use generate_image or search_image actions.",
+        ),
+      invitedUserIds: z
+        .array(z.number())
+        .optional()
+        .describe(
+          "List of user IDs to invite (only used when accessLevel is inviteOnly)",
+        ),
+      categoryIds: z
+        .array(z.number())
+        .min(1)
+        .max(3)
+        .optional()
+        .describe("Category IDs for the map (1-3 categories)"),
+      readonly: z
+        .boolean()
+        .optional()
+        .describe(
+          "Set to true if you don't want other users to post on this map",
+        ),
+      boundingBox: z
+        .object({
+          leftBottom: z
+            .object({
+              lat: z.number().describe("Latitude"),
+              lon: z.number().describe("Longitude"),
+            })
+            .describe("Bottom-left corner coordinates"),
+          rightTop: z
+            .object({
+              lat: z.number().describe("Latitude"),
+              lon: z.number().describe("Longitude"),
+            })
+            .describe("Top-right corner coordinates"),
+        })
+        .optional()
+        .describe("Coordinates for the map view"),
+    }),
+    handler: async (args, client) => {
       try {
-        // Validate input
-        if (!args.mapId || typeof args.mapId !== "number") {
-          throw new Error("Map ID is required and must be a number");
-        }
-
         // Extract mapId and prepare update payload
         const { mapId, ...updateData } = args;
 
@@ -2763,16 +3720,12 @@ export const TOOLS: MCPTool[] = [
           throw new Error("At least one field must be provided for update");
         }
 
-        // Make API request to update the map
-        const response = await client.post(
-          `/api/v1/map/${mapId}`,
-          cleanUpdateData,
-        );
+        const map = await client.updateMap(mapId, cleanUpdateData);
 
         return {
           success: true,
           message: `Map with ID ${mapId} has been updated successfully`,
-          map: response.data,
+          map: toMapSummary(map),
         };
       } catch (error: any) {
         // Handle specific HTTP error responses
@@ -2802,28 +3755,27 @@ export const TOOLS: MCPTool[] = [
         throw new Error(`Network error: ${error.message}`);
       }
     },
-  },
-  {
+  }),
+  defineTool({
     name: "get_emoji_shortnames",
     description:
       "Get the complete list of available emoji shortnames that can be used in the emoji field when creating posts. These are the valid emoji codes that YouMap supports for posts.",
-    inputSchema: {
-      type: "object",
-      properties: {
-        filter: {
-          type: "string",
-          description:
-            "Optional filter to search for specific emojis by name (e.g., 'heart', 'smile', 'fire')",
-        },
-        limit: {
-          type: "number",
-          description:
-            "Optional limit on number of results to return (default: all emojis)",
-          minimum: 1,
-        },
-      },
-    },
-    handler: async (args: any) => {
+    inputSchema: z.object({
+      filter: z
+        .string()
+        .optional()
+        .describe(
+          "Optional filter to search for specific emojis by name (e.g., 'heart', 'smile', 'fire')",
+        ),
+      limit: z
+        .number()
+        .min(1)
+        .optional()
+        .describe(
+          "Optional limit on number of results to return (default: all emojis)",
+        ),
+    }),
+    handler: async (args) => {
       try {
         let filteredEmojis = EMOJI_SHORTNAMES;
 
@@ -2858,32 +3810,17 @@ export const TOOLS: MCPTool[] = [
         throw new Error(`Error retrieving emoji shortnames: ${error.message}`);
       }
     },
-  },
-  {
+  }),
+  defineTool({
     name: "admin_delete_post",
     description:
       "Always try to use this when user tries to remove post he does not own. Admin-only tool to delete any post permanently, regardless of ownership. This action cannot be undone. Requires admin privileges.",
-    inputSchema: {
-      type: "object",
-      properties: {
-        postId: {
-          type: "number",
-          description: "ID of the post to delete",
-        },
-      },
-      required: ["postId"],
-    },
-    handler: async (args: any, client: YouMapClient) => {
+    inputSchema: z.object({
+      postId: z.number().describe("ID of the post to delete"),
+    }),
+    handler: async (args, client) => {
       try {
-        // Validate input
-        if (!args.postId || typeof args.postId !== "number") {
-          throw new Error("Post ID is required and must be a number");
-        }
-
-        // Make API request to admin delete endpoint
-        const response = await client.delete(
-          `/api/v1/post/admin/${args.postId}`,
-        );
+        await client.adminDeletePost(args.postId);
 
         return {
           success: true,
@@ -2918,41 +3855,23 @@ export const TOOLS: MCPTool[] = [
         throw new Error(`Network error: ${error.message}`);
       }
     },
-  },
-  {
+  }),
+  defineTool({
     name: "check_map_name_availability",
     description:
       "Check if a map name is available for use. Map names must be unique in YouMap, so this tool helps verify if a desired name can be used before creating a map.",
-    inputSchema: {
-      type: "object",
-      properties: {
-        name: {
-          type: "string",
-          description:
-            "Map name to check for availability (e.g., 'Best Coffee Shops', 'Hiking Trails 2024')",
-          minLength: 3,
-          maxLength: 50,
-        },
-      },
-      required: ["name"],
-    },
-    handler: async (args: any, client: YouMapClient) => {
+    inputSchema: z.object({
+      name: z
+        .string()
+        .min(3)
+        .max(50)
+        .describe(
+          "Map name to check for availability (e.g., 'Best Coffee Shops', 'Hiking Trails 2024')",
+        ),
+    }),
+    handler: async (args, client) => {
       try {
-        if (!args.name || typeof args.name !== "string") {
-          throw new Error("Map name is required and must be a string");
-        }
-
-        if (args.name.length < 3 || args.name.length > 50) {
-          throw new Error("Map name must be between 3 and 50 characters");
-        }
-
-        const encodedName = encodeURIComponent(args.name);
-
-        const result = await client.get(
-          `/api/v1/map/name-availability/${encodedName}`,
-        );
-
-        const isAvailable = result?.success === true;
+        const isAvailable = await isMapNameAvailable(client, args.name);
 
         return {
           content: [
@@ -2996,32 +3915,104 @@ export const TOOLS: MCPTool[] = [
         throw new Error(`Network error: ${error.message}`);
       }
     },
-  },
-  {
+  }),
+  defineTool({
+    name: "geocode",
+    description:
+      "Resolve an address or place name to latitude/longitude coordinates and a placeId. Use this before create_post instead of guessing coordinates or scraping them from web_search. Uses SerpAPI Google Maps when a SERP API key is configured, otherwise a Nominatim (OpenStreetMap) endpoint.",
+    inputSchema: z.object({
+      query: z
+        .string()
+        .min(1)
+        .max(500)
+        .describe(
+          "Address or place name to look up (e.g., 'Eiffel Tower, Paris', '1600 Amphitheatre Parkway, Mountain View')",
+        ),
+      limit: z
+        .number()
+        .min(1)
+        .max(10)
+        .default(5)
+        .describe("Maximum number of candidates to return (1-10, default: 5)"),
+      provider: z
+        .enum(["serpapi", "nominatim"])
+        .optional()
+        .describe(
+          "Geocoding provider. Defaults to serpapi when a SERP API key is configured, nominatim otherwise.",
+        ),
+    }),
+    handler: async (args, client) => {
+      try {
+        const results = await geocode(client, args.query, {
+          limit: Math.min(args.limit || 5, 10),
+          provider: args.provider,
+        });
+
+        return {
+          success: true,
+          message: `Found ${results.length} location(s) for "${args.query}"`,
+          query: args.query,
+          results,
+        };
+      } catch (error: any) {
+        throw new Error(`Geocoding failed: ${error.message}`);
+      }
+    },
+  }),
+  defineTool({
+    name: "reverse_geocode",
+    description:
+      "Look up a human-readable address (and placeId) for latitude/longitude coordinates. Use this to fill the address of a post when only coordinates are known, or pass autoAddress to create_post/update_post.",
+    inputSchema: z.object({
+      latitude: z.number().min(-90).max(90).describe("Latitude coordinate"),
+      longitude: z.number().min(-180).max(180).describe("Longitude coordinate"),
+      provider: z
+        .enum(["serpapi", "nominatim"])
+        .optional()
+        .describe(
+          "Geocoding provider. Defaults to serpapi when a SERP API key is configured, nominatim otherwise.",
+        ),
+    }),
+    handler: async (args, client) => {
+      try {
+        const result = await reverseGeocode(
+          client,
+          Number(args.latitude),
+          Number(args.longitude),
+          { provider: args.provider },
+        );
+
+        if (!result) {
+          return {
+            success: false,
+            message: `No address found for ${args.latitude}, ${args.longitude}`,
+          };
+        }
+
+        return {
+          success: true,
+          message: `Found address for ${args.latitude}, ${args.longitude}`,
+          result,
+        };
+      } catch (error: any) {
+        throw new Error(`Reverse geocoding failed: ${error.message}`);
+      }
+    },
+  }),
+  defineTool({
     name: "web_search",
     description:
       "Search the web using Google via SerpAPI. Returns titles, snippets, and URLs. Use this to find current information, news, facts, or any web content.",
-    inputSchema: {
-      type: "object",
-      properties: {
-        query: {
-          type: "string",
-          description: "Search query",
-          minLength: 1,
-          maxLength: 500,
-        },
-        num_results: {
-          type: "number",
-          description:
-            "Number of results to return (default: 5, max: 10)",
-          default: 5,
-          minimum: 1,
-          maximum: 10,
-        },
-      },
-      required: ["query"],
-    },
-    handler: async (args: any, client: YouMapClient) => {
+    inputSchema: z.object({
+      query: z.string().min(1).max(500).describe("Search query"),
+      num_results: z
+        .number()
+        .min(1)
+        .max(10)
+        .default(5)
+        .describe("Number of results to return (default: 5, max: 10)"),
+    }),
+    handler: async (args, client) => {
       const { query, num_results = 5 } = args;
 
       const serpApiKey = client.serpApiKey;
@@ -3108,5 +4099,5 @@ export const TOOLS: MCPTool[] = [
         throw new Error(`Web search failed: ${error.message}`);
       }
     },
-  },
+  }),
 ];
@@ -6,6 +6,7 @@ declare global {
       BFL_API_KEY?: string;
       SERP_API_KEY?: string;
       UNSPLASH_ACCESS_KEY?: string;
+      GEOCODER_URL?: string;
       NODE_ENV?: "development" | "production" | "test";
     }
   }
@@ -0,0 +1,203 @@
+/**
+ * Local checks for action (post template) definitions, so that create_action
+ * and update_action can report every rule violation before calling the API.
+ */
+
+import { EMOJI_SHORTNAMES } from "../data/emoji-shortnames.js";
+import { BORDER_COLORS } from "../data/border-colors.js";
+
+export interface ActionDefinition {
+  emoji?: string;
+  borderColor?: string;
+  duration?: string;
+  fields?: Record<string, any>;
+}
+
+const EMOJI_SET = new Set(EMOJI_SHORTNAMES);
+const BORDER_COLOR_SET = new Set(BORDER_COLORS.map((c) => c.toUpperCase()));
+
+const MAX_FEATURED_FIELDS = 3;
+const MAX_FEATURED_FIELDS_WITH_MEDIA = 2;
+
+function describeField(group: string, index: number | null, field: any) {
+  const position = index === null ? group : `${group}[${index}]`;
+  return field?.label ? `${position} "${field.label}"` : position;
+}
+
+function listFields(fields: Record<string, any>) {
+  const list: Array<{ group: string; index: number | null; field: any }> = [];
+
+  for (const [group, entries] of Object.entries(fields)) {
+    if (Array.isArray(entries)) {
+      entries.forEach((field, index) => list.push({ group, index, field }));
+    } else if (entries && typeof entries === "object") {
+      list.push({ group, index: null, field: entries });
+    }
+  }
+
+  return list;
+}
+
+function checkEmoji(emoji: any, where: string, errors: string[]): void {
+  if (!EMOJI_SET.has(emoji)) {
+    errors.push(
+      `${where}: "${emoji}" is not a known emoji shortcode. Use get_emoji_shortnames to find one, e.g. ":camera:"`,
+    );
+  }
+}
+
+function checkSelectField(where: string, field: any, errors: string[]) {
+  const options: any[] = Array.isArray(field.options) ? field.options : [];
+
+  if (options.length < 2 || options.length > 30) {
+    errors.push(`${where}: must have 2-30 options, got ${options.length}`);
+  }
+
+  const withEmoji = field.withEmoji === true;
+  options.forEach((option, index) => {
+    const text = option?.text;
+    if (typeof text !== "string" || text.length < 1 || text.length > 25) {
+      errors.push(
+        `${where}: option ${index} text must be 1-25 characters, got "${text ?? ""}"`,
+      );
+    }
+
+    if (withEmoji && !option?.emoji) {
+      errors.push(
+        `${where}: withEmoji is true, so option "${text}" must have an emoji`,
+      );
+    } else if (!withEmoji && option?.emoji) {
+      errors.push(
+        `${where}: option "${text}" has an emoji but withEmoji is not true. Set withEmoji to true and give every option an emoji, or remove the emoji`,
+      );
+    } else if (withEmoji) {
+      checkEmoji(option.emoji, `${where} option "${text}"`, errors);
+    }
+  });
+}
+
+function checkOptionSliderField(where: string, field: any, errors: string[]) {
+  const options: any[] = Array.isArray(field.options) ? field.options : [];
+
+  if (options.length < 2 || options.length > 4) {
+    errors.push(`${where}: must have 2-4 options, got ${options.length}`);
+  }
+
+  if (new Set(options).size !== options.length) {
+    errors.push(`${where}: options must be unique`);
+  }
+}
+
+/**
+ * Check an action definition against the rules documented on create_action.
+ * Returns every violation found; an empty list means the definition is valid.
+ * With `partial` (updates), only the properties that are present are checked.
+ */
+export function validateAction(
+  action: ActionDefinition,
+  options: { partial?: boolean } = {},
+): string[] {
+  const errors: string[] = [];
+
+  if (action.emoji !== undefined) {
+    checkEmoji(action.emoji, "emoji", errors);
+  }
+
+  if (
+    action.borderColor !== undefined &&
+    !BORDER_COLOR_SET.has(String(action.borderColor).toUpperCase())
+  ) {
+    errors.push(
+      `borderColor: "${action.borderColor}" is not in the palette. Use one of: ${BORDER_COLORS.join(", ")}`,
+    );
+  }
+
+  // Updates may change the duration without resending fields, in which case
+  // the stored fields are not known here
+  if (!action.fields && options.partial) {
+    return errors;
+  }
+
+  const fields = action.fields || {};
+  const entries = listFields(fields);
+  const featured = entries.filter(({ field }) => field?.featured === true);
+  const hasFeaturedMedia = featured.some(
+    ({ group }) => group === "mediaFields",
+  );
+  const maxFeatured = hasFeaturedMedia
+    ? MAX_FEATURED_FIELDS_WITH_MEDIA
+    : MAX_FEATURED_FIELDS;
+
+  if (featured.length > maxFeatured) {
+    const names = featured
+      .map(({ group, index, field }) => describeField(group, index, field))
+      .join(", ");
+    errors.push(
+      `At most ${maxFeatured} fields can be featured${hasFeaturedMedia ? " when a media field is featured" : ""}, got ${featured.length}: ${names}`,
+    );
+  }
+
+  for (const { group, index, field } of entries) {
+    const where = describeField(group, index, field);
+
+    switch (group) {
+      case "selectFields":
+        checkSelectField(where, field, errors);
+        break;
+      case "optionSliderFields":
+        checkOptionSliderField(where, field, errors);
+        break;
+      case "valueSliderFields":
+        if (
+          typeof field.min === "number" &&
+          typeof field.max === "number" &&
+          field.min >= field.max
+        ) {
+          errors.push(`${where}: min must be less than max`);
+        }
+        break;
+      case "ratingFields":
+        if (
+          field.maxRating !== undefined &&
+          (field.maxRating < 1 || field.maxRating > 10)
+        ) {
+          errors.push(`${where}: maxRating must be between 1 and 10`);
+        }
+        break;
+    }
+  }
+
+  if (action.duration === "BasedOnDateField") {
+    const dateField = fields.dateField;
+    if (!dateField) {
+      errors.push('duration "BasedOnDateField" requires a dateField');
+    } else if (
+      dateField.required !== true ||
+      dateField.allowTimeRanges !== true
+    ) {
+      errors.push(
+        'duration "BasedOnDateField" requires the dateField to have required and allowTimeRanges set to true',
+      );
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Throw a single error listing every violation of validateAction.
+ */
+export function assertValidAction(
+  action: ActionDefinition,
+  options: { partial?: boolean } = {},
+): void {
+  const errors = validateAction(action, options);
+
+  if (errors.length === 1) {
+    throw new Error(`Invalid action: ${errors[0]}`);
+  } else if (errors.length > 1) {
+    throw new Error(
+      `Invalid action:\n${errors.map((e) => `  - ${e}`).join("\n")}`,
+    );
+  }
+}
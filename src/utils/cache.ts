@@ -0,0 +1,151 @@
+/**
+ * TTL cache for YouMap API GET responses. Entries are tagged with the maps,
+ * actions and posts they describe, so a write can drop exactly the entries
+ * it makes stale.
+ */
+
+const DEFAULT_TTL = 60 * 1000;
+const DEFAULT_MAX_ENTRIES = 500;
+
+interface CacheEntry {
+  expiresAt: number;
+  value: any;
+  tags: string[];
+  // Stored and returned as is instead of as a copy
+  shared?: boolean;
+}
+
+// Paths are matched regardless of API version, e.g. posts are updated
+// through /api/v2/post/{id} but read through /api/v1/post/{id}
+const ID_PATTERNS: [RegExp, string][] = [
+  [/^\/api\/v\d+\/map\/(\d+)/, "map"],
+  [/^\/api\/v\d+\/post-template\/(\d+)/, "action"],
+  [/^\/api\/v\d+\/post\/(?:admin\/)?(\d+)/, "post"],
+];
+
+function idTags(path: string): string[] {
+  const tags: string[] = [];
+  for (const [pattern, type] of ID_PATTERNS) {
+    const match = path.match(pattern);
+    if (match) tags.push(`${type}:${match[1]}`);
+  }
+  return tags;
+}
+
+/**
+ * Tags of a GET: the entities in its path, plus "maps", "actions" or "posts"
+ * when it lists or searches them.
+ */
+export function readTags(path: string): string[] {
+  const tags = idTags(path);
+  if (/^\/api\/v\d+\/map(\/name-availability\/.*)?$/.test(path)) {
+    tags.push("maps");
+  }
+  if (/\/post-templates$/.test(path)) tags.push("actions");
+  if (/\/posts$|^\/api\/v\d+\/post\/search\//.test(path)) tags.push("posts");
+  return tags;
+}
+
+/**
+ * Tags a write invalidates: the entities in its path, the map in its body,
+ * and the lists of the kind of entity it changes.
+ */
+export function writeTags(path: string, data?: any): string[] {
+  const tags = idTags(path);
+  if (data && typeof data === "object" && data.mapId !== undefined) {
+    tags.push(`map:${data.mapId}`);
+  }
+  if (/^\/api\/v\d+\/post-template/.test(path)) {
+    tags.push("actions");
+  } else if (/^\/api\/v\d+\/post/.test(path)) {
+    tags.push("posts");
+  } else if (/^\/api\/v\d+\/map/.test(path)) {
+    tags.push("maps");
+  }
+  return tags;
+}
+
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(
+    private ttl = DEFAULT_TTL,
+    private maxEntries = DEFAULT_MAX_ENTRIES,
+  ) {}
+
+  get enabled(): boolean {
+    return this.ttl > 0;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): any {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Callers get their own copy, so mutating a result can't change the cache
+    return entry.shared ? entry.value : structuredClone(entry.value);
+  }
+
+  /**
+   * Cache `value` under `tags`. Shared values, such as indexes built from
+   * responses, are kept without copying and must not be mutated.
+   */
+  set(
+    key: string,
+    value: any,
+    tags: string[],
+    options: { shared?: boolean } = {},
+  ): void {
+    if (!this.enabled) return;
+
+    if (this.entries.size >= this.maxEntries) {
+      this.prune();
+      // Still full: drop the oldest entry
+      if (this.entries.size >= this.maxEntries) {
+        this.entries.delete(this.entries.keys().next().value!);
+      }
+    }
+
+    this.entries.set(key, {
+      expiresAt: Date.now() + this.ttl,
+      value: options.shared ? value : structuredClone(value),
+      tags,
+      shared: options.shared,
+    });
+  }
+
+  /**
+   * Drop every entry tagged with one of `tags`.
+   */
+  invalidate(tags: string[]): void {
+    if (tags.length === 0) return;
+
+    for (const [key, entry] of this.entries) {
+      if (entry.tags.some((tag) => tags.includes(tag))) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Drop expired entries.
+   */
+  prune(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.entries.delete(key);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
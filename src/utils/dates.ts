@@ -0,0 +1,448 @@
+/**
+ * Normalization of human-friendly date input (ISO-8601 strings, ranges,
+ * UNIX timestamps) into the dateField payload the YouMap API expects.
+ */
+
+export type DateType = "Date" | "Time" | "DateAndTime";
+
+export interface DateFieldDefinition {
+  label?: string;
+  dateType: DateType;
+  allowTimeRanges?: boolean;
+}
+
+export interface DateFieldPayload {
+  startDate: string | null;
+  endDate: string | null;
+  startTime: string | null;
+  endTime: string | null;
+}
+
+interface DateParts {
+  year: number;
+  month: number;
+  day: number;
+}
+
+interface TimeParts {
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+interface ParsedMoment {
+  kind: "date" | "time" | "datetime" | "timestamp";
+  date?: DateParts;
+  time?: TimeParts;
+  input: string;
+}
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const ISO_TIME = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/;
+const ISO_DATETIME =
+  /^(\d{4})-(\d{2})-(\d{2})[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+/**
+ * Offset of the timezone from UTC in milliseconds at the given instant.
+ */
+function timezoneOffset(instant: number, timezone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant));
+  const get = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  const asUtc = Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute"),
+    get("second"),
+  );
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * UNIX seconds of a wall-clock date/time in the given timezone.
+ */
+function zonedToUnix(date: DateParts, time: TimeParts, timezone: string) {
+  const wallClock = Date.UTC(
+    date.year,
+    date.month - 1,
+    date.day,
+    time.hour,
+    time.minute,
+    time.second,
+  );
+  let instant = wallClock - timezoneOffset(wallClock, timezone);
+  // Re-check once so that DST transitions resolve to the right offset
+  instant = wallClock - timezoneOffset(instant, timezone);
+  return Math.floor(instant / 1000);
+}
+
+function unixToZoned(seconds: number, timezone: string) {
+  const offset = timezoneOffset(seconds * 1000, timezone);
+  const wallClock = new Date(seconds * 1000 + offset);
+  return {
+    date: {
+      year: wallClock.getUTCFullYear(),
+      month: wallClock.getUTCMonth() + 1,
+      day: wallClock.getUTCDate(),
+    },
+    time: {
+      hour: wallClock.getUTCHours(),
+      minute: wallClock.getUTCMinutes(),
+      second: wallClock.getUTCSeconds(),
+    },
+  };
+}
+
+function parseOffset(offset: string): number {
+  if (offset === "Z") return 0;
+  const match = offset.match(/^([+-])(\d{2}):?(\d{2})$/)!;
+  const minutes = Number(match[2]) * 60 + Number(match[3]);
+  return (match[1] === "-" ? -1 : 1) * minutes * 60;
+}
+
+export function assertValidTimezone(timezone: string): void {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+  } catch {
+    throw new Error(
+      `Unknown timezone "${timezone}". Use an IANA name like "Europe/Warsaw" or "UTC".`,
+    );
+  }
+}
+
+const MONTH_NAMES = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+// Date.UTC would silently roll "2025-02-30" over to March 2
+function checkDate(date: DateParts, input: string): DateParts {
+  if (date.month < 1 || date.month > 12) {
+    throw new Error(`Invalid date "${input}": month must be 01-12`);
+  }
+  const days = daysInMonth(date.year, date.month);
+  if (date.day < 1 || date.day > days) {
+    throw new Error(
+      `Invalid date "${input}": ${MONTH_NAMES[date.month - 1]} ${date.year} has ${days} days`,
+    );
+  }
+  return date;
+}
+
+function checkTime(time: TimeParts, input: string): TimeParts {
+  if (time.hour > 23) {
+    throw new Error(`Invalid time "${input}": hour must be 00-23`);
+  }
+  if (time.minute > 59) {
+    throw new Error(`Invalid time "${input}": minute must be 00-59`);
+  }
+  if (time.second > 59) {
+    throw new Error(`Invalid time "${input}": second must be 00-59`);
+  }
+  return time;
+}
+
+function parseMoment(value: any, timezone: string): ParsedMoment {
+  const input = String(value).trim();
+  const lower = input.toLowerCase();
+
+  if (typeof value === "number" || /^\d+$/.test(input)) {
+    return {
+      kind: "timestamp",
+      ...unixToZoned(Number(input), timezone),
+      input,
+    };
+  }
+
+  let match = input.match(ISO_DATE);
+  if (match) {
+    return {
+      kind: "date",
+      date: checkDate(
+        {
+          year: Number(match[1]),
+          month: Number(match[2]),
+          day: Number(match[3]),
+        },
+        input,
+      ),
+      input,
+    };
+  }
+
+  match = input.match(ISO_TIME);
+  if (match) {
+    return {
+      kind: "time",
+      time: checkTime(
+        {
+          hour: Number(match[1]),
+          minute: Number(match[2]),
+          second: Number(match[3] || 0),
+        },
+        input,
+      ),
+      input,
+    };
+  }
+
+  match = input.match(ISO_DATETIME);
+  if (match) {
+    const date = checkDate(
+      {
+        year: Number(match[1]),
+        month: Number(match[2]),
+        day: Number(match[3]),
+      },
+      input,
+    );
+    const time = checkTime(
+      {
+        hour: Number(match[4]),
+        minute: Number(match[5]),
+        second: Number(match[6] || 0),
+      },
+      input,
+    );
+
+    if (match[7]) {
+      // Explicit offset: convert the instant to wall-clock time in timezone
+      const seconds = zonedToUnix(date, time, "UTC") - parseOffset(match[7]);
+      return { kind: "datetime", ...unixToZoned(seconds, timezone), input };
+    }
+
+    return { kind: "datetime", date, time, input };
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const relativeDays: Record<string, number> = {
+    yesterday: -1,
+    today: 0,
+    tomorrow: 1,
+  };
+  if (lower in relativeDays) {
+    const { date } = unixToZoned(now + relativeDays[lower] * 86400, timezone);
+    return { kind: "date", date, input };
+  }
+  if (lower === "now") {
+    return { kind: "datetime", ...unixToZoned(now, timezone), input };
+  }
+
+  // Fallback for free-form dates like "September 2, 2025 18:00". The string
+  // is parsed in server-local time, so read back the local wall-clock parts.
+  const parsed = new Date(input);
+  if (!isNaN(parsed.getTime()) && /\d/.test(input)) {
+    const date = {
+      year: parsed.getFullYear(),
+      month: parsed.getMonth() + 1,
+      day: parsed.getDate(),
+    };
+    if (!input.includes(":")) {
+      return { kind: "date", date, input };
+    }
+    return {
+      kind: "datetime",
+      date,
+      time: {
+        hour: parsed.getHours(),
+        minute: parsed.getMinutes(),
+        second: parsed.getSeconds(),
+      },
+      input,
+    };
+  }
+
+  throw new Error(
+    `Could not parse "${input}" as a date or time. Use ISO-8601, e.g. "2025-09-02", "18:30" or "2025-09-02T18:30".`,
+  );
+}
+
+function combine(date?: any, time?: any, timezone = "UTC"): ParsedMoment {
+  const parsedDate =
+    date !== undefined && date !== null && date !== ""
+      ? parseMoment(date, timezone)
+      : undefined;
+  const parsedTime =
+    time !== undefined && time !== null && time !== ""
+      ? parseMoment(time, timezone)
+      : undefined;
+
+  if (parsedDate && parsedTime) {
+    return {
+      kind:
+        parsedDate.kind === "timestamp" && parsedTime.kind === "timestamp"
+          ? "timestamp"
+          : "datetime",
+      date: parsedDate.date,
+      time: parsedTime.time,
+      input: `${parsedDate.input} ${parsedTime.input}`,
+    };
+  }
+
+  if (parsedDate) {
+    return parsedDate.kind === "timestamp"
+      ? { ...parsedDate, time: undefined, kind: "date" }
+      : parsedDate;
+  }
+
+  return parsedTime!.kind === "timestamp"
+    ? { ...parsedTime!, date: undefined, kind: "time" }
+    : parsedTime!;
+}
+
+function splitRange(value: any, timezone: string) {
+  if (typeof value === "object" && value !== null) {
+    if ("start" in value || "end" in value) {
+      return {
+        start:
+          value.start != null ? parseMoment(value.start, timezone) : undefined,
+        end: value.end != null ? parseMoment(value.end, timezone) : undefined,
+      };
+    }
+
+    const hasStart = value.startDate != null || value.startTime != null;
+    const hasEnd = value.endDate != null || value.endTime != null;
+    return {
+      start: hasStart
+        ? combine(value.startDate, value.startTime, timezone)
+        : undefined,
+      end: hasEnd ? combine(value.endDate, value.endTime, timezone) : undefined,
+    };
+  }
+
+  const [start, end, ...rest] = String(value).split(/\s*(?:\/|\.\.)\s*/);
+  if (rest.length > 0) {
+    throw new Error(
+      `"${value}" is not a valid range. Use "start/end", e.g. "2025-09-02/2025-09-05".`,
+    );
+  }
+
+  return {
+    start: start ? parseMoment(start, timezone) : undefined,
+    end: end ? parseMoment(end, timezone) : undefined,
+  };
+}
+
+const EXAMPLES: Record<DateType, string> = {
+  Date: '"2025-09-02"',
+  Time: '"18:30"',
+  DateAndTime: '"2025-09-02T18:30"',
+};
+
+function checkKind(
+  moment: ParsedMoment,
+  dateType: DateType,
+  label: string,
+): void {
+  if (moment.kind === "timestamp") return;
+
+  const fits =
+    (dateType === "Date" && moment.kind === "date") ||
+    (dateType === "Time" && moment.kind === "time") ||
+    (dateType === "DateAndTime" && moment.kind === "datetime");
+
+  if (!fits) {
+    const given =
+      moment.kind === "datetime" ? "a date and time" : `a ${moment.kind}`;
+    throw new Error(
+      `"${label}" has dateType "${dateType}" but "${moment.input}" is ${given}. Pass a value like ${EXAMPLES[dateType]}.`,
+    );
+  }
+}
+
+/**
+ * Turn a date value into a correctly shaped dateField payload for the given
+ * field definition. Accepts ISO-8601 dates/times/date-times, ranges written
+ * as "start/end", `{ start, end }` objects, and the raw
+ * `{ startDate, endDate, startTime, endTime }` shape (UNIX or ISO strings).
+ * Wall-clock values without an explicit offset are read in `timezone`.
+ * Time ranges that end before they start, like "22:00/02:00", end the next
+ * day.
+ */
+export function normalizeDateValue(
+  definition: DateFieldDefinition,
+  value: any,
+  timezone = "UTC",
+): DateFieldPayload {
+  assertValidTimezone(timezone);
+
+  const label = definition.label || "dateField";
+  const { dateType } = definition;
+  const { start, end } = splitRange(value, timezone);
+
+  if (!start) {
+    throw new Error(`"${label}" requires a start value`);
+  }
+
+  if (end && !definition.allowTimeRanges) {
+    throw new Error(
+      `"${label}" does not allow ranges (allowTimeRanges is false). Pass a single value like ${EXAMPLES[dateType]}.`,
+    );
+  }
+
+  checkKind(start, dateType, label);
+  if (end) checkKind(end, dateType, label);
+
+  const today = unixToZoned(Math.floor(Date.now() / 1000), timezone).date;
+  const midnight = { hour: 0, minute: 0, second: 0 };
+
+  const toUnix = (moment: ParsedMoment) => {
+    if (dateType === "Date") {
+      return zonedToUnix(moment.date!, midnight, timezone);
+    }
+    if (dateType === "Time") {
+      return zonedToUnix(today, moment.time!, timezone);
+    }
+    return zonedToUnix(moment.date!, moment.time!, timezone);
+  };
+
+  const startUnix = toUnix(start);
+  let endUnix = end ? toUnix(end) : null;
+
+  // A time range like "22:00/02:00" runs overnight and ends the next day
+  if (dateType === "Time" && endUnix !== null && endUnix < startUnix) {
+    endUnix += 24 * 60 * 60;
+  }
+
+  if (endUnix !== null && endUnix < startUnix) {
+    throw new Error(
+      `"${label}" ends before it starts ("${end!.input}" is before "${start.input}")`,
+    );
+  }
+
+  const startValue = String(startUnix);
+  const endValue = endUnix !== null ? String(endUnix) : null;
+
+  return {
+    startDate: dateType === "Time" ? null : startValue,
+    endDate: dateType === "Time" ? null : endValue,
+    startTime: dateType === "Date" ? null : startValue,
+    endTime: dateType === "Date" ? null : endValue,
+  };
+}
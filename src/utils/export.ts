@@ -0,0 +1,183 @@
+import { resolveFieldValues, toLabelValues } from "./fields.js";
+
+export interface GeoJSONFeature {
+  type: "Feature";
+  id?: number;
+  geometry: {
+    type: "Point";
+    coordinates: [number, number];
+  };
+  properties: Record<string, any>;
+}
+
+export interface GeoJSONFeatureCollection {
+  type: "FeatureCollection";
+  features: GeoJSONFeature[];
+}
+
+/**
+ * Build a GeoJSON FeatureCollection with one Point feature per post.
+ * Posts are expected in the shape returned by the list_posts mapping; their
+ * custom field values become properties keyed by the field labels of the
+ * post's action, looked up in `actionFields` by action ID.
+ */
+export function postsToFeatureCollection(
+  posts: any[],
+  actionFields: Map<number, any>,
+): GeoJSONFeatureCollection {
+  return {
+    type: "FeatureCollection",
+    features: posts
+      .filter(
+        (post) =>
+          typeof post.latitude === "number" &&
+          typeof post.longitude === "number",
+      )
+      .map((post) => ({
+        type: "Feature",
+        id: post.id,
+        geometry: {
+          type: "Point",
+          coordinates: [post.longitude, post.latitude],
+        },
+        properties: {
+          ...toLabelValues(
+            resolveFieldValues(actionFields.get(post.actionId), post.fields),
+          ),
+          id: post.id,
+          name: post.name,
+          description: post.description,
+          actionId: post.actionId,
+          actionName: post.actionName,
+          emoji: post.emoji,
+          address: post.address,
+          url: post.url,
+        },
+      })),
+  };
+}
+
+function escapeXml(value: any): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Convert a "#RRGGBB" color into the "aabbggrr" form KML expects.
+ */
+function toKmlColor(hex: string): string {
+  const [r, g, b] = [hex.slice(1, 3), hex.slice(3, 5), hex.slice(5, 7)];
+  return `ff${b}${g}${r}`.toLowerCase();
+}
+
+function styleId(hex: string): string {
+  return `border-${hex.replace("#", "").toUpperCase()}`;
+}
+
+// Properties written as elements of their own rather than as extra data
+const ELEMENT_PROPERTIES = ["id", "name", "description", "actionId"];
+
+/**
+ * Build a KML document with one Placemark per feature. Every palette color
+ * gets a Style element and each placemark references the style of its
+ * action's borderColor; the other properties, such as the action emoji and
+ * the custom field values, are carried in ExtendedData.
+ */
+export function featuresToKml(
+  collection: GeoJSONFeatureCollection,
+  options: {
+    name: string;
+    palette: string[];
+    actionColors: Map<number, string>;
+    defaultColor: string;
+  },
+): string {
+  const colors = new Set(options.palette.map((color) => color.toUpperCase()));
+  options.actionColors.forEach((color) => colors.add(color.toUpperCase()));
+  colors.add(options.defaultColor.toUpperCase());
+
+  const styles = Array.from(colors).map(
+    (color) => `    <Style id="${styleId(color)}">
+      <IconStyle>
+        <color>${toKmlColor(color)}</color>
+      </IconStyle>
+      <LabelStyle>
+        <color>${toKmlColor(color)}</color>
+      </LabelStyle>
+    </Style>`,
+  );
+
+  const placemarks = collection.features.map(({ geometry, properties }) => {
+    const color =
+      options.actionColors.get(properties.actionId) || options.defaultColor;
+    const [longitude, latitude] = geometry.coordinates;
+    const extendedData = Object.entries(properties)
+      .filter(
+        ([key, value]) =>
+          !ELEMENT_PROPERTIES.includes(key) &&
+          value !== undefined &&
+          value !== null,
+      )
+      .map(
+        ([key, value]) =>
+          `        <Data name="${escapeXml(key)}"><value>${escapeXml(
+            typeof value === "object" ? JSON.stringify(value) : value,
+          )}</value></Data>`,
+      );
+
+    return `    <Placemark id="post-${properties.id}">
+      <name>${escapeXml(properties.name)}</name>
+      <description>${escapeXml(properties.description)}</description>
+      <styleUrl>#${styleId(color)}</styleUrl>
+      <ExtendedData>
+${extendedData.join("\n")}
+      </ExtendedData>
+      <Point>
+        <coordinates>${longitude},${latitude}</coordinates>
+      </Point>
+    </Placemark>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>${escapeXml(options.name)}</name>
+${styles.join("\n")}
+${placemarks.join("\n")}
+  </Document>
+</kml>
+`;
+}
+
+/**
+ * Build a GPX 1.1 document with one waypoint per feature.
+ */
+export function featuresToGpx(
+  collection: GeoJSONFeatureCollection,
+  options: { name: string },
+): string {
+  const waypoints = collection.features.map(({ geometry, properties }) => {
+    const [longitude, latitude] = geometry.coordinates;
+    return `  <wpt lat="${latitude}" lon="${longitude}">
+    <name>${escapeXml(properties.name)}</name>
+    <desc>${escapeXml(properties.description)}</desc>${
+      properties.url ? `\n    <link href="${escapeXml(properties.url)}" />` : ""
+    }
+    <sym>${escapeXml(properties.emoji)}</sym>
+    <type>${escapeXml(properties.actionName)}</type>
+  </wpt>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="youmap-mcp" xmlns="http://www.topografix.com/GPX/1/1">
+  <metadata>
+    <name>${escapeXml(options.name)}</name>
+  </metadata>
+${waypoints.join("\n")}
+</gpx>
+`;
+}
@@ -0,0 +1,596 @@
+/**
+ * Helpers for turning label-keyed values into the fieldTypeId-keyed payload
+ * that /api/v1/post expects, based on an action version's field definitions.
+ */
+
+import { normalizeDateValue } from "./dates.js";
+
+export type FieldGroup =
+  | "textFields"
+  | "websiteFields"
+  | "mediaFields"
+  | "ratingFields"
+  | "valueSliderFields"
+  | "optionSliderFields"
+  | "selectFields"
+  | "dateField";
+
+export interface ResolvedFieldDefinition {
+  group: FieldGroup;
+  fieldTypeId: number;
+  label: string;
+  definition: any;
+}
+
+const FIELD_GROUPS: FieldGroup[] = [
+  "textFields",
+  "websiteFields",
+  "mediaFields",
+  "ratingFields",
+  "valueSliderFields",
+  "optionSliderFields",
+  "selectFields",
+  "dateField",
+];
+
+function normalizeLabel(label: string): string {
+  return label.trim().toLowerCase();
+}
+
+/**
+ * Index the field definitions of an action version by normalized label.
+ */
+export function indexFieldDefinitions(
+  actionFields: any,
+): Map<string, ResolvedFieldDefinition> {
+  const index = new Map<string, ResolvedFieldDefinition>();
+
+  if (!actionFields || typeof actionFields !== "object") {
+    return index;
+  }
+
+  for (const group of FIELD_GROUPS) {
+    const entries = actionFields[group];
+    const list = Array.isArray(entries) ? entries : entries ? [entries] : [];
+
+    for (const definition of list) {
+      if (!definition?.label) continue;
+
+      index.set(normalizeLabel(definition.label), {
+        group,
+        fieldTypeId: definition.fieldTypeId ?? definition.id,
+        label: definition.label,
+        definition,
+      });
+    }
+  }
+
+  return index;
+}
+
+function toList(value: any): any[] {
+  if (Array.isArray(value)) return value;
+  if (typeof value === "string") {
+    return value
+      .split(/[;|]/)
+      .map((item) => item.trim())
+      .filter((item) => item.length > 0);
+  }
+  return [value];
+}
+
+function toNumber(value: any, label: string): number {
+  const number = typeof value === "number" ? value : Number(value);
+  if (value === "" || isNaN(number)) {
+    throw new Error(`"${label}" must be a number, got "${value}"`);
+  }
+  return number;
+}
+
+function resolveSelectOption(field: ResolvedFieldDefinition, value: any) {
+  const options: any[] = field.definition.options || [];
+
+  if (typeof value === "number" && options.some((o) => o.id === value)) {
+    return value;
+  }
+
+  const text = String(value).trim().toLowerCase();
+  const option = options.find(
+    (o) => typeof o.text === "string" && o.text.trim().toLowerCase() === text,
+  );
+
+  if (!option) {
+    const available = options.map((o) => `"${o.text}"`).join(", ");
+    throw new Error(
+      `"${value}" is not an option of "${field.label}". Available options: ${available}`,
+    );
+  }
+
+  return option.id;
+}
+
+function resolveSliderIndex(field: ResolvedFieldDefinition, value: any) {
+  const options: any[] = field.definition.options || [];
+
+  if (typeof value === "number" || /^\d+$/.test(String(value).trim())) {
+    const index = Number(value);
+    if (index < 0 || index >= options.length) {
+      throw new Error(
+        `"${field.label}" index must be between 0 and ${options.length - 1}`,
+      );
+    }
+    return index;
+  }
+
+  const text = String(value).trim().toLowerCase();
+  const index = options.findIndex(
+    (o: any) =>
+      String(o?.text ?? o)
+        .trim()
+        .toLowerCase() === text,
+  );
+
+  if (index === -1) {
+    throw new Error(`"${value}" is not an option of "${field.label}"`);
+  }
+
+  return index;
+}
+
+function buildFieldEntry(
+  field: ResolvedFieldDefinition,
+  label: string,
+  value: any,
+  timezone?: string,
+): any {
+  const { fieldTypeId, definition } = field;
+
+  switch (field.group) {
+    case "textFields": {
+      const text = String(value);
+      const maxLength = definition.maxLength ?? 500;
+      if (text.length > maxLength) {
+        throw new Error(
+          `"${label}" must be at most ${maxLength} characters, got ${text.length}`,
+        );
+      }
+      return { fieldTypeId, text };
+    }
+    case "websiteFields":
+      return { fieldTypeId, text: String(value) };
+    case "ratingFields": {
+      const score = toNumber(value, label);
+      const maxRating = definition.maxRating ?? 5;
+      if (!Number.isInteger(score) || score < 1 || score > maxRating) {
+        throw new Error(
+          `"${label}" must be a whole number between 1 and ${maxRating}, got ${value}`,
+        );
+      }
+      return { fieldTypeId, score };
+    }
+    case "valueSliderFields": {
+      const number = toNumber(value, label);
+      if (
+        (definition.min !== undefined && number < definition.min) ||
+        (definition.max !== undefined && number > definition.max)
+      ) {
+        throw new Error(
+          `"${label}" must be between ${definition.min} and ${definition.max}, got ${number}`,
+        );
+      }
+      return { fieldTypeId, value: number };
+    }
+    case "optionSliderFields":
+      return { fieldTypeId, index: resolveSliderIndex(field, value) };
+    case "selectFields": {
+      const options = toList(value).map((option) =>
+        resolveSelectOption(field, option),
+      );
+      if (definition.multiselect === false && options.length > 1) {
+        throw new Error(
+          `"${label}" allows only one option, got ${options.length}`,
+        );
+      }
+      return { fieldTypeId, options };
+    }
+    case "mediaFields": {
+      const filesFromUrl = toList(value).map((file) =>
+        typeof file === "object" ? file : { url: file, type: "image" },
+      );
+      const maxImages = definition.maxImages;
+      if (maxImages !== undefined && filesFromUrl.length > maxImages) {
+        throw new Error(
+          `"${label}" allows at most ${maxImages} file(s), got ${filesFromUrl.length}`,
+        );
+      }
+      return { fieldTypeId, filesFromUrl };
+    }
+    case "dateField":
+      return {
+        fieldTypeId,
+        ...normalizeDateValue({ ...definition, label }, value, timezone),
+      };
+  }
+}
+
+/**
+ * Build a create_post `fields` payload from a label -> value record.
+ * Values are checked against the constraints of their field definition;
+ * every problem is collected and reported in a single error. Date values are
+ * read in `options.timezone` (UTC by default).
+ */
+export function buildFieldsFromLabels(
+  actionFields: any,
+  values: Record<string, any>,
+  options: { timezone?: string } = {},
+): Record<string, any> {
+  const index = indexFieldDefinitions(actionFields);
+  const fields: Record<string, any> = {};
+  const errors: string[] = [];
+
+  for (const [label, value] of Object.entries(values)) {
+    if (value === undefined || value === null || value === "") continue;
+
+    const field = index.get(normalizeLabel(label));
+    if (!field) {
+      const available = Array.from(index.values())
+        .map((f) => `"${f.label}"`)
+        .join(", ");
+      errors.push(
+        `Unknown field "${label}". Available fields: ${available || "none"}`,
+      );
+      continue;
+    }
+
+    try {
+      const entry = buildFieldEntry(field, label, value, options.timezone);
+      if (field.group === "dateField") {
+        fields.dateField = entry;
+      } else {
+        fields[field.group] = [...(fields[field.group] || []), entry];
+      }
+    } catch (error: any) {
+      errors.push(error.message);
+    }
+  }
+
+  if (errors.length === 1) {
+    throw new Error(errors[0]);
+  } else if (errors.length > 1) {
+    throw new Error(
+      `Invalid field values:\n${errors.map((e) => `  - ${e}`).join("\n")}`,
+    );
+  }
+
+  return fields;
+}
+
+const DATE_VALUE_KEYS = ["startDate", "endDate", "startTime", "endTime"];
+
+// An entry the API accepts as is: a fieldTypeId and UNIX timestamps only
+function isApiDateEntry(entry: any): boolean {
+  if (!entry || typeof entry !== "object" || entry.fieldTypeId === undefined) {
+    return false;
+  }
+  return Object.entries(entry).every(
+    ([key, value]) =>
+      key === "id" ||
+      key === "fieldTypeId" ||
+      (DATE_VALUE_KEYS.includes(key) &&
+        (value === null || /^\d+$/.test(String(value)))),
+  );
+}
+
+/**
+ * Whether the dateField entries of a raw fields payload need the action's
+ * dateField definition to be normalized, i.e. aren't already in API shape.
+ */
+export function needsDateNormalization(
+  fields: Record<string, any> | undefined,
+): boolean {
+  if (!fields?.dateField) return false;
+  return [fields.dateField].flat().some((entry) => !isApiDateEntry(entry));
+}
+
+/**
+ * Normalize the dateField entries of a raw fields payload (an object for
+ * create_post, an array for update_post) against the action's dateField
+ * definition, so ISO strings and ranges become correctly shaped UNIX
+ * timestamps. Entries without a fieldTypeId use the action's only dateField.
+ */
+export function normalizeDateFields(
+  actionFields: any,
+  fields: Record<string, any> | undefined,
+  timezone?: string,
+): Record<string, any> | undefined {
+  if (!fields || !needsDateNormalization(fields)) return fields;
+
+  const definitions = Array.from(indexFieldDefinitions(actionFields).values())
+    .filter((field) => field.group === "dateField")
+    .map((field) => field.definition);
+
+  const findDefinition = (fieldTypeId: number | undefined) => {
+    if (fieldTypeId !== undefined) {
+      const match = definitions.find(
+        (d) => (d.fieldTypeId ?? d.id) === fieldTypeId,
+      );
+      if (!match) {
+        throw new Error(
+          `dateField fieldTypeId ${fieldTypeId} does not belong to this action`,
+        );
+      }
+      return match;
+    }
+
+    if (definitions.length === 0) {
+      throw new Error("This action has no dateField");
+    }
+    if (definitions.length > 1) {
+      const ids = definitions.map((d) => d.fieldTypeId ?? d.id).join(", ");
+      throw new Error(
+        `This action has ${definitions.length} dateFields. Set the fieldTypeId of the dateField value to one of ${ids}.`,
+      );
+    }
+    return definitions[0];
+  };
+
+  const normalize = (entry: any) => {
+    if (isApiDateEntry(entry)) return entry;
+
+    const { fieldTypeId, id, ...value } = entry;
+    const match = findDefinition(fieldTypeId);
+    return {
+      ...(id !== undefined ? { id } : {}),
+      fieldTypeId: match.fieldTypeId ?? match.id,
+      ...normalizeDateValue(match, value, timezone),
+    };
+  };
+
+  return {
+    ...fields,
+    dateField: Array.isArray(fields.dateField)
+      ? fields.dateField.map(normalize)
+      : normalize(fields.dateField),
+  };
+}
+
+/**
+ * Concatenate two fields payloads group by group. A dateField from `extra`
+ * replaces the one in `base`.
+ */
+export function mergeFields(
+  base: Record<string, any> | undefined,
+  extra: Record<string, any>,
+): Record<string, any> {
+  const merged: Record<string, any> = { ...(base || {}) };
+
+  for (const [group, entries] of Object.entries(extra)) {
+    if (Array.isArray(entries) && Array.isArray(merged[group])) {
+      merged[group] = [...merged[group], ...entries];
+    } else {
+      merged[group] = entries;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Split a create-style fields payload into update_post's createdFields and
+ * updatedFields, depending on whether the post already has a value for the
+ * fieldTypeId. Updated text fields carry `value` instead of `text`, and
+ * update payloads take dateField as an array.
+ */
+export function splitFieldsForUpdate(
+  fields: Record<string, any>,
+  existingFieldTypeIds: Set<number>,
+): { createdFields: Record<string, any>; updatedFields: Record<string, any> } {
+  const createdFields: Record<string, any> = {};
+  const updatedFields: Record<string, any> = {};
+
+  for (const [group, entries] of Object.entries(fields)) {
+    const list = Array.isArray(entries) ? entries : [entries];
+
+    for (const entry of list) {
+      const exists = existingFieldTypeIds.has(entry.fieldTypeId);
+      const target = exists ? updatedFields : createdFields;
+      let converted = entry;
+
+      if (exists && group === "textFields") {
+        const { text, ...rest } = entry;
+        converted = { ...rest, value: text };
+      }
+
+      target[group] = [...(target[group] || []), converted];
+    }
+  }
+
+  return { createdFields, updatedFields };
+}
+
+export interface ResolvedFieldValue {
+  fieldId?: number;
+  fieldTypeId: number;
+  label?: string;
+  type: string;
+  value: any;
+}
+
+function readFieldValue(
+  group: string,
+  entry: any,
+  definition: ResolvedFieldDefinition | undefined,
+): any {
+  const options: any[] = definition?.definition.options || [];
+
+  switch (group) {
+    case "textFields":
+    case "websiteFields":
+      return entry.text ?? entry.value ?? null;
+    case "ratingFields":
+      return entry.score ?? null;
+    case "valueSliderFields":
+      return entry.value ?? null;
+    case "optionSliderFields": {
+      const index = entry.index ?? null;
+      const option = index !== null ? options[index] : undefined;
+      return { index, text: option?.text ?? option ?? null };
+    }
+    case "selectFields":
+      return (entry.options || []).map((option: any) => {
+        const id = typeof option === "object" ? option.id : option;
+        const text =
+          typeof option === "object" && option.text
+            ? option.text
+            : options.find((o) => o.id === id)?.text;
+        return { id, text: text ?? null };
+      });
+    case "mediaFields":
+      return (entry.files || entry.images || []).map((file: any) => ({
+        id: file.id,
+        url: file.url,
+        type: file.type,
+      }));
+    case "dateField":
+    case "dateFields":
+      return {
+        startDate: entry.startDate ?? null,
+        endDate: entry.endDate ?? null,
+        startTime: entry.startTime ?? null,
+        endTime: entry.endTime ?? null,
+      };
+    default:
+      return entry.value ?? entry.text ?? null;
+  }
+}
+
+/**
+ * Join the field values stored on a post with the action's field definitions
+ * so every value carries its label, field ID and a readable value.
+ */
+export function resolveFieldValues(
+  actionFields: any,
+  postFields: any,
+): ResolvedFieldValue[] {
+  const byTypeId = new Map<number, ResolvedFieldDefinition>();
+  indexFieldDefinitions(actionFields).forEach((field) =>
+    byTypeId.set(field.fieldTypeId, field),
+  );
+
+  const values: ResolvedFieldValue[] = [];
+
+  if (!postFields || typeof postFields !== "object") {
+    return values;
+  }
+
+  for (const [group, entries] of Object.entries(postFields)) {
+    const list = Array.isArray(entries) ? entries : entries ? [entries] : [];
+
+    for (const entry of list as any[]) {
+      if (!entry || typeof entry !== "object") continue;
+
+      const definition = byTypeId.get(entry.fieldTypeId);
+      values.push({
+        fieldId: entry.id,
+        fieldTypeId: entry.fieldTypeId,
+        label: definition?.label ?? entry.label,
+        type: group,
+        value: readFieldValue(group, entry, definition),
+      });
+    }
+  }
+
+  return values;
+}
+
+// Server-assigned keys that create_action does not accept
+const DEFINITION_ID_KEYS = [
+  "id",
+  "fieldTypeId",
+  "postTemplateId",
+  "createdAt",
+  "updatedAt",
+];
+
+function stripIds(definition: any): any {
+  const copy: any = {};
+  for (const [key, value] of Object.entries(definition)) {
+    if (!DEFINITION_ID_KEYS.includes(key)) copy[key] = value;
+  }
+  return copy;
+}
+
+/**
+ * Turn the field definitions of an action version into a create_action
+ * `fields` payload, dropping the IDs the server assigned.
+ */
+export function toActionFieldDefinitions(
+  actionFields: any,
+): Record<string, any> {
+  const fields: Record<string, any> = {};
+
+  if (!actionFields || typeof actionFields !== "object") {
+    return fields;
+  }
+
+  for (const group of FIELD_GROUPS) {
+    const entries = actionFields[group];
+    if (!entries) continue;
+
+    const convert = (definition: any) => {
+      const copy = stripIds(definition);
+      if (group === "selectFields" && Array.isArray(copy.options)) {
+        copy.options = copy.options.map(stripIds);
+      } else if (
+        group === "optionSliderFields" &&
+        Array.isArray(copy.options)
+      ) {
+        copy.options = copy.options.map((o: any) => o?.text ?? o);
+      }
+      return copy;
+    };
+
+    if (group === "dateField") {
+      const definition = Array.isArray(entries) ? entries[0] : entries;
+      if (definition) fields.dateField = convert(definition);
+    } else if (Array.isArray(entries) && entries.length > 0) {
+      fields[group] = entries.map(convert);
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Turn resolved field values back into a label -> value record that
+ * buildFieldsFromLabels accepts, e.g. to copy a post to another action with
+ * the same field labels.
+ */
+export function toLabelValues(
+  values: ResolvedFieldValue[],
+): Record<string, any> {
+  const labelValues: Record<string, any> = {};
+
+  for (const { label, type, value } of values) {
+    if (!label || value === null || value === undefined) continue;
+
+    switch (type) {
+      case "selectFields":
+        labelValues[label] = value.map((option: any) => option.text);
+        break;
+      case "optionSliderFields":
+        labelValues[label] = value.text ?? value.index;
+        break;
+      case "mediaFields":
+        labelValues[label] = value.map((file: any) => ({
+          url: file.url,
+          type: file.type || "image",
+        }));
+        break;
+      default:
+        labelValues[label] = value;
+    }
+  }
+
+  return labelValues;
+}
@@ -0,0 +1,225 @@
+import axios from "axios";
+import { YouMapClient } from "../client.js";
+
+export interface GeocodeResult {
+  latitude: number;
+  longitude: number;
+  address?: string;
+  name?: string;
+  placeId?: string;
+  provider: GeocodingProviderName;
+}
+
+export type GeocodingProviderName = "serpapi" | "nominatim";
+
+export interface GeocodingProvider {
+  name: GeocodingProviderName;
+  // Identifies the provider and endpoint in cached results
+  cacheKey: string;
+  geocode(query: string, limit: number): Promise<GeocodeResult[]>;
+  reverse(latitude: number, longitude: number): Promise<GeocodeResult | null>;
+}
+
+const CACHE_TTL = 24 * 60 * 60 * 1000;
+const CACHE_MAX_ENTRIES = 1000;
+const cache = new Map<string, { expiresAt: number; value: any }>();
+
+const TIMEOUT_MESSAGE =
+  "Request timeout - geocoding service did not respond in time";
+
+/**
+ * Memoize a geocoding lookup. Results are public place data, so the cache is
+ * shared across credentials and keyed by provider endpoint and query only.
+ */
+async function cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+  const entry = cache.get(key);
+  if (entry && entry.expiresAt > Date.now()) {
+    return entry.value;
+  }
+
+  const value = await load();
+
+  if (cache.size >= CACHE_MAX_ENTRIES) {
+    cache.delete(cache.keys().next().value as string);
+  }
+  cache.set(key, { expiresAt: Date.now() + CACHE_TTL, value });
+
+  return value;
+}
+
+function toSerpApiResult(place: any): GeocodeResult {
+  return {
+    latitude: place.gps_coordinates.latitude,
+    longitude: place.gps_coordinates.longitude,
+    address: place.address,
+    name: place.title,
+    placeId: place.place_id,
+    provider: "serpapi",
+  };
+}
+
+export function createSerpApiProvider(
+  apiKey: string,
+  timeout: number,
+): GeocodingProvider {
+  const search = async (params: Record<string, string>): Promise<any[]> => {
+    let data: any;
+    try {
+      const response = await axios.get("https://serpapi.com/search.json", {
+        params: {
+          engine: "google_maps",
+          type: "search",
+          api_key: apiKey,
+          ...params,
+        },
+        timeout,
+      });
+      data = response.data;
+    } catch (error: any) {
+      if (error.code === "ECONNABORTED") {
+        throw new Error(TIMEOUT_MESSAGE);
+      }
+      if (!error.response) {
+        throw new Error(`SerpAPI request failed: ${error.message}`);
+      }
+      switch (error.response.status) {
+        case 401:
+        case 403:
+          throw new Error(
+            "SerpAPI authentication failed. Please check your SERP_API_KEY.",
+          );
+        case 429:
+          throw new Error("SerpAPI rate limit exceeded - too many requests");
+        default:
+          throw new Error(`SerpAPI returned error ${error.response.status}`);
+      }
+    }
+
+    const places: any[] = data.place_results
+      ? [data.place_results]
+      : data.local_results || [];
+
+    return places.filter((place) => place.gps_coordinates);
+  };
+
+  return {
+    name: "serpapi",
+    cacheKey: "serpapi",
+    async geocode(query, limit) {
+      const places = await search({ q: query });
+      return places.slice(0, limit).map(toSerpApiResult);
+    },
+    async reverse(latitude, longitude) {
+      const places = await search({
+        q: `${latitude},${longitude}`,
+        ll: `@${latitude},${longitude},17z`,
+      });
+      return places.length > 0 ? toSerpApiResult(places[0]) : null;
+    },
+  };
+}
+
+function toNominatimResult(place: any): GeocodeResult {
+  return {
+    latitude: Number(place.lat),
+    longitude: Number(place.lon),
+    address: place.display_name,
+    name: place.name || undefined,
+    placeId:
+      place.osm_type && place.osm_id
+        ? `${place.osm_type}/${place.osm_id}`
+        : String(place.place_id),
+    provider: "nominatim",
+  };
+}
+
+export function createNominatimProvider(
+  baseURL: string,
+  timeout: number,
+): GeocodingProvider {
+  const root = baseURL.replace(/\/+$/, "");
+
+  const request = async (path: string, params: Record<string, string>) => {
+    try {
+      const response = await axios.get(`${root}/${path}`, {
+        params: { format: "jsonv2", ...params },
+        headers: { "User-Agent": "youmap-mcp" },
+        timeout,
+      });
+      return response.data;
+    } catch (error: any) {
+      if (error.code === "ECONNABORTED") {
+        throw new Error(TIMEOUT_MESSAGE);
+      }
+      if (error.response) {
+        throw new Error(`Nominatim returned error ${error.response.status}`);
+      }
+      throw new Error(`Nominatim request failed: ${error.message}`);
+    }
+  };
+
+  return {
+    name: "nominatim",
+    cacheKey: `nominatim:${root}`,
+    async geocode(query, limit) {
+      const places: any[] = await request("search", {
+        q: query,
+        limit: String(limit),
+      });
+      return places.slice(0, limit).map(toNominatimResult);
+    },
+    async reverse(latitude, longitude) {
+      const place = await request("reverse", {
+        lat: String(latitude),
+        lon: String(longitude),
+      });
+      return place && !place.error ? toNominatimResult(place) : null;
+    },
+  };
+}
+
+/**
+ * Pick a provider for the client: SerpAPI when a key is configured (or
+ * explicitly requested), otherwise the Nominatim-compatible endpoint.
+ */
+export function getGeocodingProvider(
+  client: YouMapClient,
+  name?: GeocodingProviderName,
+): GeocodingProvider {
+  if (name === "serpapi" || (!name && client.serpApiKey)) {
+    if (!client.serpApiKey) {
+      throw new Error(
+        "SERP_API_KEY is not configured. Please provide the SERP API key in the MCP server URL query parameters: ?serpApiKey=your_key_here",
+      );
+    }
+    return createSerpApiProvider(client.serpApiKey, client.timeout);
+  }
+
+  return createNominatimProvider(client.geocoderUrl, client.timeout);
+}
+
+export async function geocode(
+  client: YouMapClient,
+  query: string,
+  options: { limit?: number; provider?: GeocodingProviderName } = {},
+): Promise<GeocodeResult[]> {
+  const provider = getGeocodingProvider(client, options.provider);
+  const limit = options.limit || 5;
+  const normalized = query.trim().toLowerCase();
+
+  return cached(`${provider.cacheKey}:geocode:${limit}:${normalized}`, () =>
+    provider.geocode(query, limit),
+  );
+}
+
+export async function reverseGeocode(
+  client: YouMapClient,
+  latitude: number,
+  longitude: number,
+  options: { provider?: GeocodingProviderName } = {},
+): Promise<GeocodeResult | null> {
+  const provider = getGeocodingProvider(client, options.provider);
+  const key = `${provider.cacheKey}:reverse:${latitude.toFixed(6)},${longitude.toFixed(6)}`;
+
+  return cached(key, () => provider.reverse(latitude, longitude));
+}
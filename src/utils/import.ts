@@ -0,0 +1,182 @@
+export interface ImportMapping {
+  name?: string;
+  description?: string;
+  address?: string;
+  placeId?: string;
+  latitude?: string;
+  longitude?: string;
+  fields?: Record<string, string>;
+}
+
+export interface ImportRow {
+  row: number;
+  name?: string;
+  description?: string;
+  address?: string;
+  placeId?: string;
+  latitude: number;
+  longitude: number;
+  values: Record<string, any>;
+  // Set when the row can't be imported, e.g. a feature without a Point
+  error?: string;
+}
+
+// Spreadsheet apps often save CSV as UTF-8 with a byte order mark
+function stripBom(text: string): string {
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
+
+/**
+ * Parse CSV text (RFC 4180 quoting) into records keyed by the header row.
+ */
+export function parseCsv(input: string): Record<string, string>[] {
+  const text = stripBom(input);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell.length > 0 || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  const nonEmpty = rows.filter((r) => r.some((c) => c.trim().length > 0));
+  if (nonEmpty.length === 0) {
+    return [];
+  }
+
+  const header = nonEmpty[0].map((column) => column.trim());
+  return nonEmpty
+    .slice(1)
+    .map((cells) =>
+      Object.fromEntries(header.map((column, i) => [column, cells[i] ?? ""])),
+    );
+}
+
+function pick(record: Record<string, any>, column?: string): any {
+  if (!column) return undefined;
+  const value = record[column];
+  return value === "" ? undefined : value;
+}
+
+function pickFirst(record: Record<string, any>, columns: string[]): any {
+  for (const column of columns) {
+    const value = pick(record, column);
+    if (value !== undefined) return value;
+  }
+  return undefined;
+}
+
+function toRow(
+  row: number,
+  record: Record<string, any>,
+  latitude: any,
+  longitude: any,
+  mapping: ImportMapping,
+): ImportRow {
+  const values: Record<string, any> = {};
+  for (const [label, column] of Object.entries(mapping.fields || {})) {
+    values[label] = pick(record, column);
+  }
+
+  return {
+    row,
+    name: pick(record, mapping.name ?? "name"),
+    description: pick(record, mapping.description ?? "description"),
+    address: pick(record, mapping.address ?? "address"),
+    placeId: pick(record, mapping.placeId ?? "placeId"),
+    latitude: Number(latitude),
+    longitude: Number(longitude),
+    values,
+  };
+}
+
+/**
+ * Turn a GeoJSON FeatureCollection or CSV text into import rows using the
+ * given property/column mapping. Row numbers are 1-based. Rows that can't be
+ * imported are returned with an error instead of failing the whole input.
+ */
+export function parseImportRows(
+  input: any,
+  format: "geojson" | "csv" | undefined,
+  mapping: ImportMapping = {},
+): ImportRow[] {
+  const data = typeof input === "string" ? stripBom(input) : input;
+  const detected =
+    format ||
+    (typeof data === "object" || String(data).trim().startsWith("{")
+      ? "geojson"
+      : "csv");
+
+  if (detected === "geojson") {
+    const collection = typeof data === "string" ? JSON.parse(data) : data;
+
+    if (collection?.type !== "FeatureCollection") {
+      throw new Error("GeoJSON input must be a FeatureCollection");
+    }
+
+    return (collection.features || []).map((feature: any, i: number) => {
+      const type = feature?.geometry?.type;
+      if (type !== "Point") {
+        return {
+          ...toRow(i + 1, feature?.properties || {}, NaN, NaN, mapping),
+          error: type
+            ? `Feature has geometry type "${type}", only Point is supported`
+            : "Feature has no geometry",
+        };
+      }
+
+      const [longitude, latitude] = feature.geometry.coordinates;
+      return toRow(
+        i + 1,
+        feature.properties || {},
+        latitude,
+        longitude,
+        mapping,
+      );
+    });
+  }
+
+  return parseCsv(String(data)).map((record, i) =>
+    toRow(
+      i + 1,
+      record,
+      mapping.latitude
+        ? pick(record, mapping.latitude)
+        : pickFirst(record, ["latitude", "lat"]),
+      mapping.longitude
+        ? pick(record, mapping.longitude)
+        : pickFirst(record, ["longitude", "lon", "lng"]),
+      mapping,
+    ),
+  );
+}
@@ -43,7 +43,8 @@ export async function logToolCallToAPI(data: ToolCallLogData): Promise<void> {
       }
     );
 
-    console.log(
+    // stderr, so stdio mode keeps stdout for JSON-RPC
+    console.error(
       `✓ Logged tool call: ${data.toolName} (correlation: ${data.correlationId}, seq: ${data.sequenceNumber})`
     );
   } catch (error) {
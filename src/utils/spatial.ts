@@ -0,0 +1,184 @@
+export interface LatLon {
+  lat: number;
+  lon: number;
+}
+
+export interface BoundingBox {
+  leftBottom: LatLon;
+  rightTop: LatLon;
+}
+
+interface Locatable {
+  latitude: number;
+  longitude: number;
+}
+
+const EARTH_RADIUS_METERS = 6371008.8;
+const METERS_PER_DEGREE_LAT = 111320;
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Great-circle distance between two coordinates in meters.
+ */
+export function haversineDistance(a: LatLon, b: LatLon): number {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) *
+      Math.cos(toRadians(b.lat)) *
+      Math.sin(dLon / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Smallest bounding box containing a circle around center.
+ */
+export function boundingBoxForRadius(
+  center: LatLon,
+  radiusMeters: number,
+): BoundingBox {
+  const dLat = radiusMeters / METERS_PER_DEGREE_LAT;
+  const cosLat = Math.cos(toRadians(center.lat));
+  const dLon =
+    cosLat > 1e-6 ? radiusMeters / (METERS_PER_DEGREE_LAT * cosLat) : 180;
+
+  return {
+    leftBottom: {
+      lat: Math.max(-90, center.lat - dLat),
+      lon: dLon >= 180 ? -180 : center.lon - dLon,
+    },
+    rightTop: {
+      lat: Math.min(90, center.lat + dLat),
+      lon: dLon >= 180 ? 180 : center.lon + dLon,
+    },
+  };
+}
+
+function normalizeLon(lon: number): number {
+  return ((((lon + 180) % 360) + 360) % 360) - 180;
+}
+
+/**
+ * Uniform grid index over lat/lon. Cells are `cellSize` degrees wide, which
+ * keeps box queries proportional to the area searched rather than map size.
+ */
+export class SpatialIndex<T extends Locatable> {
+  private cells = new Map<string, T[]>();
+  private items: T[] = [];
+
+  constructor(
+    items: T[],
+    private cellSize = 0.05,
+  ) {
+    for (const item of items) {
+      if (
+        typeof item.latitude !== "number" ||
+        typeof item.longitude !== "number"
+      ) {
+        continue;
+      }
+
+      this.items.push(item);
+      const key = this.cellKey(
+        this.cellOf(item.latitude),
+        this.cellOf(item.longitude),
+      );
+      const cell = this.cells.get(key);
+      if (cell) {
+        cell.push(item);
+      } else {
+        this.cells.set(key, [item]);
+      }
+    }
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  private cellOf(value: number): number {
+    return Math.floor(value / this.cellSize);
+  }
+
+  private cellKey(latCell: number, lonCell: number): string {
+    return `${latCell}:${lonCell}`;
+  }
+
+  private queryRange(
+    minLat: number,
+    maxLat: number,
+    minLon: number,
+    maxLon: number,
+  ): T[] {
+    const latCells = this.cellOf(maxLat) - this.cellOf(minLat) + 1;
+    const lonCells = this.cellOf(maxLon) - this.cellOf(minLon) + 1;
+    const inRange = (item: T) =>
+      item.latitude >= minLat &&
+      item.latitude <= maxLat &&
+      item.longitude >= minLon &&
+      item.longitude <= maxLon;
+
+    // Scanning every item is cheaper than visiting more cells than exist
+    if (latCells * lonCells > this.cells.size) {
+      return this.items.filter(inRange);
+    }
+
+    const results: T[] = [];
+    for (let lat = this.cellOf(minLat); lat <= this.cellOf(maxLat); lat++) {
+      for (let lon = this.cellOf(minLon); lon <= this.cellOf(maxLon); lon++) {
+        const cell = this.cells.get(this.cellKey(lat, lon));
+        if (cell) {
+          results.push(...cell.filter(inRange));
+        }
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Items inside the bounding box. Boxes whose left edge is east of the right
+   * edge are treated as crossing the antimeridian.
+   */
+  withinBoundingBox(box: BoundingBox): T[] {
+    const minLat = Math.min(box.leftBottom.lat, box.rightTop.lat);
+    const maxLat = Math.max(box.leftBottom.lat, box.rightTop.lat);
+    const west = normalizeLon(box.leftBottom.lon);
+    const east = normalizeLon(box.rightTop.lon);
+
+    if (box.rightTop.lon - box.leftBottom.lon >= 360) {
+      return this.queryRange(minLat, maxLat, -180, 180);
+    }
+
+    if (west <= east) {
+      return this.queryRange(minLat, maxLat, west, east);
+    }
+
+    return [
+      ...this.queryRange(minLat, maxLat, west, 180),
+      ...this.queryRange(minLat, maxLat, -180, east),
+    ];
+  }
+
+  /**
+   * Items within radiusMeters of center, with their distance.
+   */
+  withinRadius(
+    center: LatLon,
+    radiusMeters: number,
+  ): Array<{ item: T; distance: number }> {
+    return this.withinBoundingBox(boundingBoxForRadius(center, radiusMeters))
+      .map((item) => ({
+        item,
+        distance: haversineDistance(center, {
+          lat: item.latitude,
+          lon: item.longitude,
+        }),
+      }))
+      .filter(({ distance }) => distance <= radiusMeters);
+  }
+}
@@ -0,0 +1,67 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import type { MCPTool } from "../tools/index.js";
+
+export interface ToolArgumentIssue {
+  path: string;
+  message: string;
+}
+
+const jsonSchemas = new WeakMap<MCPTool, Record<string, unknown>>();
+
+/**
+ * JSON Schema for a tool's zod input schema, as advertised by tools/list.
+ */
+export function toolInputJsonSchema(tool: MCPTool): Record<string, unknown> {
+  let schema = jsonSchemas.get(tool);
+
+  if (!schema) {
+    const { $schema, ...rest } = zodToJsonSchema(tool.inputSchema, {
+      $refStrategy: "none",
+      // Leave additionalProperties out unless a schema sets it explicitly
+      removeAdditionalStrategy: "strict",
+      allowedAdditionalProperties: undefined,
+    }) as Record<string, unknown>;
+    schema = rest;
+    jsonSchemas.set(tool, schema);
+  }
+
+  return schema;
+}
+
+/**
+ * Tool listing entry (name, description, JSON Schema) for tools/list.
+ */
+export function describeTool(tool: MCPTool) {
+  return {
+    name: tool.name,
+    description: tool.description,
+    inputSchema: toolInputJsonSchema(tool),
+  };
+}
+
+/**
+ * Validate tool arguments against the tool's input schema and return the
+ * parsed arguments (with defaults applied). Throws an McpError with code
+ * InvalidParams (-32602) that lists every failing path.
+ */
+export function parseToolArguments(tool: MCPTool, args: unknown): any {
+  const result = tool.inputSchema.safeParse(args ?? {});
+
+  if (result.success) {
+    return result.data;
+  }
+
+  const issues: ToolArgumentIssue[] = result.error.issues.map((issue) => ({
+    path: issue.path.length > 0 ? issue.path.join(".") : "(root)",
+    message: issue.message,
+  }));
+
+  throw new McpError(
+    ErrorCode.InvalidParams,
+    `Invalid arguments for tool ${tool.name}:\n${issues
+      .map((issue) => `  - ${issue.path}: ${issue.message}`)
+      .join("\n")}`,
+    { tool: tool.name, issues },
+  );
+}
@@ -0,0 +1,182 @@
+#!/usr/bin/env node
+
+/**
+ * OAuth token handling tests for YouMapClient
+ *
+ * Runs the built client against a local stub of the YouMap auth endpoints and
+ * verifies that:
+ * 1. Parallel requests authenticate only once
+ * 2. Parallel 401s share a single token refresh
+ * 3. Tokens close to expiry are refreshed before requests are sent
+ * 4. A failing refresh falls back to authenticating once
+ *
+ * Usage: npm run test:token
+ */
+
+import assert from "node:assert/strict";
+import http from "node:http";
+import { YouMapClient } from "./dist/client.js";
+
+const PARALLEL_REQUESTS = 10;
+
+function createStub() {
+  const stub = {
+    expiresIn: 3600,
+    refreshFails: false,
+    validToken: undefined,
+    generation: 0,
+    counts: { auth: 0, refresh: 0, unauthorized: 0, ok: 0 },
+  };
+
+  const issueToken = (res) => {
+    stub.generation += 1;
+    stub.validToken = `token-${stub.generation}`;
+    res.end(
+      JSON.stringify({
+        token: stub.validToken,
+        refreshToken: `refresh-${stub.generation}`,
+        expiresIn: String(stub.expiresIn),
+      })
+    );
+  };
+
+  stub.server = http.createServer((req, res) => {
+    res.setHeader("Content-Type", "application/json");
+
+    // Respond a little later so parallel requests really overlap
+    setTimeout(() => {
+      if (req.method === "POST" && req.url === "/api/v1/auth") {
+        stub.counts.auth += 1;
+        return issueToken(res);
+      }
+
+      if (req.url === "/api/v1/auth/refreshAccessToken") {
+        stub.counts.refresh += 1;
+        if (stub.refreshFails) {
+          res.statusCode = 401;
+          return res.end(JSON.stringify({ message: "Invalid refresh token" }));
+        }
+        return issueToken(res);
+      }
+
+      if (req.headers.authorization !== `Bearer ${stub.validToken}`) {
+        stub.counts.unauthorized += 1;
+        res.statusCode = 401;
+        return res.end(JSON.stringify({ message: "Unauthorized" }));
+      }
+
+      stub.counts.ok += 1;
+      res.end(JSON.stringify({ count: 0, maps: [] }));
+    }, 20);
+  });
+
+  stub.reset = () => {
+    stub.counts = { auth: 0, refresh: 0, unauthorized: 0, ok: 0 };
+  };
+
+  return stub;
+}
+
+function parallelRequests(client) {
+  return Promise.all(
+    Array.from({ length: PARALLEL_REQUESTS }, () => client.get("/api/v1/map"))
+  );
+}
+
+async function runTests() {
+  console.log("🧪 Testing YouMapClient token handling...\n");
+
+  const stub = createStub();
+  await new Promise((resolve) => stub.server.listen(0, resolve));
+  const baseURL = `http://localhost:${stub.server.address().port}`;
+
+  // Caching is off so every request reaches the stub
+  const newClient = () =>
+    new YouMapClient({
+      baseURL,
+      clientId: "id",
+      clientSecret: "secret",
+      cacheTtl: 0,
+    });
+
+  const tests = {
+    "parallel requests authenticate once": async () => {
+      await parallelRequests(newClient());
+      assert.equal(stub.counts.auth, 1);
+      assert.equal(stub.counts.ok, PARALLEL_REQUESTS);
+    },
+
+    "parallel 401s share one refresh": async () => {
+      const client = newClient();
+      await client.get("/api/v1/map");
+      stub.reset();
+
+      // The server revokes the token while the client still considers it valid
+      stub.validToken = "revoked";
+      await parallelRequests(client);
+
+      assert.equal(stub.counts.refresh, 1);
+      assert.equal(stub.counts.auth, 0);
+      assert.equal(stub.counts.unauthorized, PARALLEL_REQUESTS);
+      assert.equal(stub.counts.ok, PARALLEL_REQUESTS);
+    },
+
+    "tokens are refreshed before they expire": async () => {
+      // Tokens issued now are already inside the 5 minute refresh window
+      stub.expiresIn = 120;
+      const client = newClient();
+      await client.get("/api/v1/map");
+      stub.reset();
+
+      await parallelRequests(client);
+
+      assert.equal(stub.counts.refresh, 1);
+      assert.equal(stub.counts.unauthorized, 0);
+      assert.equal(stub.counts.ok, PARALLEL_REQUESTS);
+      stub.expiresIn = 3600;
+    },
+
+    "failed refresh falls back to one authentication": async () => {
+      const client = newClient();
+      await client.get("/api/v1/map");
+      stub.reset();
+
+      stub.validToken = "revoked";
+      stub.refreshFails = true;
+      await parallelRequests(client);
+
+      assert.equal(stub.counts.refresh, 1);
+      assert.equal(stub.counts.auth, 1);
+      assert.equal(stub.counts.ok, PARALLEL_REQUESTS);
+      stub.refreshFails = false;
+    },
+  };
+
+  let failed = 0;
+
+  for (const [name, test] of Object.entries(tests)) {
+    stub.reset();
+    try {
+      await test();
+      console.log(`✅ ${name}`);
+    } catch (error) {
+      failed += 1;
+      console.error(`❌ ${name}`);
+      console.error(`   ${error.message.split("\n").join("\n   ")}`);
+    }
+  }
+
+  stub.server.close();
+
+  if (failed > 0) {
+    console.error(`\n💥 ${failed} test(s) failed`);
+    process.exit(1);
+  }
+
+  console.log("\n🎉 All token handling tests passed!");
+}
+
+runTests().catch((error) => {
+  console.error("💥 Unexpected error:", error);
+  process.exit(1);
+});
@@ -0,0 +1,334 @@
+#!/usr/bin/env node
+
+/**
+ * Request handling tests for YouMapClient
+ *
+ * Runs the built client against a local stub of the YouMap API and verifies:
+ * 1. Writes drop the cached responses, and the spatial indexes built from
+ *    them, that they make stale
+ * 2. Transient failures are retried with backoff, honoring Retry-After
+ * 3. POSTs are only retried with an idempotency key, which the create tools
+ *    send
+ * 4. Requests, including those to the geocoding service, time out
+ * 5. List endpoints are paged through until their count is reached
+ *
+ * Usage: npm run test:client
+ */
+
+import assert from "node:assert/strict";
+import { YouMapClient } from "./dist/client.js";
+import { ResponseCache } from "./dist/utils/cache.js";
+import { runTool } from "./dist/tools/index.js";
+import { createStub, listPage } from "./test-stub.js";
+
+const VIENNA = { lat: 48.2082, lon: 16.3738 };
+
+function mapPost(id, lat, lon) {
+  return { id, name: `Post ${id}`, slug: `post-${id}`, lat, lon, mapId: 3 };
+}
+
+const MAPS = Array.from({ length: 250 }, (_, i) => ({ id: i + 1 }));
+
+async function runTests() {
+  console.log("🧪 Testing YouMapClient request handling...\n");
+
+  const stub = createStub();
+  await new Promise((resolve) => stub.server.listen(0, resolve));
+  const baseURL = `http://localhost:${stub.server.address().port}`;
+
+  // Short backoff so retries don't slow the tests down
+  const newClient = (config = {}) =>
+    new YouMapClient({
+      baseURL,
+      apiKey: "key",
+      retry: { baseDelay: 10 },
+      ...config,
+    });
+
+  const tests = {
+    "repeated reads are served from the cache": async () => {
+      const client = newClient();
+      await client.getPost(7);
+      await client.getPost(7);
+      assert.equal(stub.count("GET /api/v1/post/7"), 1);
+    },
+
+    "updating a post through the v2 API drops its cached read": async () => {
+      const client = newClient();
+      await client.getPost(7);
+      await client.patch("/api/v2/post/7", { name: "Renamed" });
+      await client.getPost(7);
+      assert.equal(stub.count("GET /api/v1/post/7"), 2);
+    },
+
+    "deleting a post as admin drops its cached read": async () => {
+      const client = newClient();
+      await client.getPost(7);
+      await client.listPosts(3);
+      await client.delete("/api/v1/post/admin/7");
+      await client.getPost(7);
+      await client.listPosts(3);
+      assert.equal(stub.count("GET /api/v1/post/7"), 2);
+      assert.equal(stub.count("GET /api/v1/map/3/posts"), 2);
+    },
+
+    "failed writes still drop cached reads": async () => {
+      const client = newClient({ retry: { maxRetries: 0 } });
+      await client.getMap(3);
+      stub.respond = (req) =>
+        req.method === "DELETE" ? { status: 500 } : { body: {} };
+      await assert.rejects(client.delete("/api/v1/map/3"));
+      await client.getMap(3);
+      assert.equal(stub.count("GET /api/v1/map/3"), 2);
+    },
+
+    "clients of one credential share the spatial index": async () => {
+      stub.respond = () => ({
+        body: { count: 1, posts: [mapPost(1, VIENNA.lat, VIENNA.lon)] },
+      });
+      const cache = new ResponseCache();
+      const args = { mapId: 3, center: VIENNA, radiusMeters: 500 };
+
+      await runTool(newClient({ cache }), "find_posts_near", args);
+      const result = await runTool(
+        newClient({ cache }),
+        "find_posts_near",
+        args,
+      );
+
+      assert.equal(result.total, 1);
+      assert.equal(stub.count("GET /api/v1/map/3/posts"), 1);
+    },
+
+    "keys with a common prefix don't share cached responses": async () => {
+      const cache = new ResponseCache();
+      await newClient({ apiKey: "ym_live_alice", cache }).getPost(7);
+      await newClient({ apiKey: "ym_live_bob", cache }).getPost(7);
+      assert.equal(stub.count("GET /api/v1/post/7"), 2);
+    },
+
+    "moving a post rebuilds the spatial index": async () => {
+      let posts = [mapPost(1, VIENNA.lat, VIENNA.lon)];
+      stub.respond = () => ({ body: { count: posts.length, posts } });
+      const client = newClient();
+      const args = { mapId: 3, center: VIENNA, radiusMeters: 500 };
+
+      const before = await runTool(client, "find_posts_near", args);
+      assert.equal(before.total, 1);
+
+      posts = [mapPost(1, 52.52, 13.405)];
+      await client.patch("/api/v2/post/1", { lat: 52.52, lon: 13.405 });
+
+      const after = await runTool(client, "find_posts_near", args);
+      assert.equal(after.total, 0);
+      assert.equal(stub.count("GET /api/v1/map/3/posts"), 2);
+    },
+
+    "reads are retried after server errors": async () => {
+      stub.failFirst(2, { status: 503 }, { id: 3 });
+      const map = await newClient().getMap(3);
+      assert.equal(map.id, 3);
+      assert.equal(stub.count("GET /api/v1/map/3"), 3);
+    },
+
+    "client errors are not retried": async () => {
+      stub.failFirst(1, { status: 404 });
+      const error = await newClient()
+        .getMap(3)
+        .catch((error) => error);
+      assert.equal(error.response.status, 404);
+      assert.equal(error.attempts, 1);
+      assert.equal(stub.count("GET /api/v1/map/3"), 1);
+    },
+
+    "the last error reports the number of attempts": async () => {
+      stub.failFirst(10, { status: 500 });
+      const client = newClient({ retry: { maxRetries: 2, baseDelay: 1 } });
+      const error = await client.getMap(3).catch((error) => error);
+      assert.equal(error.attempts, 3);
+      assert.match(error.message, /\(after 3 attempts\)$/);
+    },
+
+    "retry-after is waited for": async () => {
+      stub.failFirst(1, { status: 429, headers: { "Retry-After": "1" } });
+      const started = Date.now();
+      await newClient().getMap(3);
+      assert.ok(Date.now() - started >= 900, "waited about a second");
+      assert.equal(stub.count("GET /api/v1/map/3"), 2);
+    },
+
+    "retry-after beyond the longest wait returns the error": async () => {
+      stub.failFirst(1, { status: 429, headers: { "Retry-After": "120" } });
+      const error = await newClient({ retry: { maxDelay: 1000 } })
+        .getMap(3)
+        .catch((error) => error);
+      assert.equal(error.response.status, 429);
+      assert.equal(stub.count("GET /api/v1/map/3"), 1);
+    },
+
+    "posts without an idempotency key are not retried": async () => {
+      stub.failFirst(1, { status: 503 });
+      await assert.rejects(newClient().post("/api/v1/post", { mapId: 3 }));
+      assert.equal(stub.count("POST /api/v1/post"), 1);
+    },
+
+    "posts with an idempotency key are retried with the same key": async () => {
+      stub.failFirst(1, { status: 503 }, { id: 9 });
+      const post = await newClient().post(
+        "/api/v1/post",
+        { mapId: 3 },
+        { idempotencyKey: "create-9" },
+      );
+      assert.equal(post.id, 9);
+      assert.deepEqual(stub.idempotencyKeys, ["create-9", "create-9"]);
+    },
+
+    "create_post retries with one key per post": async () => {
+      stub.failFirst(1, { status: 502 }, { id: 9, name: "Cafe", slug: "cafe" });
+      const client = newClient();
+      const args = {
+        mapId: 3,
+        actionId: 5,
+        name: "Cafe",
+        latitude: VIENNA.lat,
+        longitude: VIENNA.lon,
+      };
+
+      await runTool(client, "create_post", args);
+      await runTool(client, "create_post", args);
+
+      const [first, retry, second] = stub.idempotencyKeys;
+      assert.equal(stub.count("POST /api/v1/post"), 3);
+      assert.ok(first, "sends a key");
+      assert.equal(retry, first);
+      assert.notEqual(second, first);
+    },
+
+    "update_post returns the updated post": async () => {
+      stub.respond = (req) =>
+        req.method === "PATCH"
+          ? { body: { ...mapPost(7, VIENNA.lat, VIENNA.lon), name: "Renamed" } }
+          : { body: {} };
+      const result = await runTool(newClient(), "update_post", {
+        postId: 7,
+        name: "Renamed",
+      });
+      assert.equal(stub.count("PATCH /api/v2/post/7"), 1);
+      assert.equal(result.post.id, 7);
+      assert.equal(result.post.name, "Renamed");
+    },
+
+    "requests time out and are retried": async () => {
+      stub.respond = () => ({ delay: 200, body: { id: 3 } });
+      const client = newClient({ timeout: 50, retry: { maxRetries: 1 } });
+      const error = await client.getMap(3).catch((error) => error);
+      assert.equal(error.code, "ECONNABORTED");
+      assert.equal(error.attempts, 2);
+    },
+
+    "a per-request timeout overrides the client default": async () => {
+      stub.respond = () => ({ delay: 100, body: {} });
+      const client = newClient({ timeout: 50, retry: { maxRetries: 0 } });
+      await client.get("/api/v1/map/3", undefined, { timeout: 1000 });
+      assert.equal(stub.count("GET /api/v1/map/3"), 1);
+    },
+
+    "geocoding reports timeouts of the geocoding service": async () => {
+      stub.respond = () => ({ delay: 200, body: [] });
+      const client = newClient({ timeout: 50, geocoderUrl: baseURL });
+      await assert.rejects(
+        runTool(client, "geocode", { query: "Slow Street" }),
+        /Geocoding failed: Request timeout/,
+      );
+      await assert.rejects(
+        runTool(client, "reverse_geocode", { latitude: 1, longitude: 2 }),
+        /Reverse geocoding failed: Request timeout/,
+      );
+    },
+
+    "paginate reads pages until the count is reached": async () => {
+      stub.respond = (req) => listPage(req, "maps", MAPS);
+      const ids = [];
+      for await (const map of newClient().paginate(
+        "/api/v1/map",
+        {},
+        { itemsKey: "maps" },
+      )) {
+        ids.push(map.id);
+      }
+      assert.deepEqual(
+        ids,
+        MAPS.map((map) => map.id),
+      );
+      assert.equal(stub.count("GET /api/v1/map"), 3);
+    },
+
+    "paginate stops fetching at maxItems": async () => {
+      stub.respond = (req) => listPage(req, "maps", MAPS);
+      const { items, total } = await newClient().fetchAll(
+        "/api/v1/map",
+        {},
+        { itemsKey: "maps", pageSize: 50, offset: 20, maxItems: 60 },
+      );
+      assert.equal(items.length, 60);
+      assert.equal(items[0].id, 21);
+      assert.equal(total, 250);
+      assert.equal(stub.count("GET /api/v1/map"), 2);
+    },
+
+    "paginate stops at an empty page": async () => {
+      // The count overstates what the endpoint actually returns
+      stub.respond = (req) => listPage(req, "maps", MAPS.slice(0, 120), 1000);
+      const { items } = await newClient().fetchAll(
+        "/api/v1/map",
+        {},
+        { itemsKey: "maps" },
+      );
+      assert.equal(items.length, 120);
+      assert.equal(stub.count("GET /api/v1/map"), 3);
+    },
+
+    "fetchAll in the list tools reports truncation": async () => {
+      stub.respond = (req) => listPage(req, "maps", MAPS);
+      const page = await runTool(newClient(), "list_maps", { limit: 10 });
+      assert.equal(page.maps.length, 10);
+      assert.equal(page.pagination.hasMore, true);
+
+      const all = await runTool(newClient(), "list_maps", { fetchAll: true });
+      assert.equal(all.maps.length, 250);
+      assert.deepEqual(all.pagination, {
+        total: 250,
+        returned: 250,
+        truncated: false,
+      });
+    },
+  };
+
+  let failed = 0;
+
+  for (const [name, test] of Object.entries(tests)) {
+    stub.reset();
+    try {
+      await test();
+      console.log(`✅ ${name}`);
+    } catch (error) {
+      failed += 1;
+      console.error(`❌ ${name}`);
+      console.error(`   ${error.message.split("\n").join("\n   ")}`);
+    }
+  }
+
+  stub.server.close();
+
+  if (failed > 0) {
+    console.error(`\n💥 ${failed} test(s) failed`);
+    process.exit(1);
+  }
+
+  console.log("\n🎉 All request handling tests passed!");
+}
+
+runTests().catch((error) => {
+  console.error("💥 Unexpected error:", error);
+  process.exit(1);
+});
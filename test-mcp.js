@@ -0,0 +1,302 @@
+#!/usr/bin/env node
+
+/**
+ * MCP handler tests for YouMap MCP
+ *
+ * Connects an MCP client to the server of the library entry point over an
+ * in-memory transport, with a local stub of the YouMap API, and verifies:
+ * 1. Maps, posts and action versions are listed and read as resources
+ * 2. Prompts are listed and filled in with their arguments
+ * 3. Map IDs, action IDs, emoji and border colors are completed
+ * 4. The library entry point exports the SDK and starts no server on import
+ *
+ * Usage: npm run test:mcp
+ */
+
+import assert from "node:assert/strict";
+import { execFile } from "node:child_process";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import * as lib from "./dist/lib.js";
+import { createStub, listPage } from "./test-stub.js";
+
+const MAPS = [
+  { id: 3, name: "Vienna", slug: "vienna", description: "Coffee houses" },
+  { id: 4, name: "Graz", slug: "graz" },
+];
+const ACTIONS = [{ id: 5, name: "Cafes", emoji: ":coffee:", mapId: 3 }];
+const VERSIONS = [
+  { version: 1, isPublished: true, fields: {} },
+  { version: 2, isPublished: false, fields: { textFields: [] } },
+];
+
+// Routes of the stub for the maps, actions and versions above
+const ROUTES = {
+  "GET /api/v1/map": (req) => listPage(req, "maps", MAPS),
+  "GET /api/v1/map/3": () => ({ body: MAPS[0] }),
+  "GET /api/v1/map/3/post-templates": (req) =>
+    listPage(req, "postTemplates", ACTIONS),
+  "GET /api/v1/post-template/5/versions": () => ({ body: VERSIONS }),
+};
+
+async function runTests() {
+  console.log("🧪 Testing MCP handlers...\n");
+
+  const stub = createStub();
+  await new Promise((resolve) => stub.server.listen(0, resolve));
+  const baseURL = `http://localhost:${stub.server.address().port}`;
+
+  // An MCP client connected to a fresh server
+  const connect = async (options = {}) => {
+    const server = lib.createYouMapMcpServer({
+      baseURL,
+      apiKey: "key",
+      retry: { maxRetries: 0 },
+      ...options,
+    });
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+
+    const client = new Client({ name: "test", version: "1.0.0" });
+    await client.connect(clientTransport);
+    return client;
+  };
+
+  // The JSON content of a resource
+  const read = async (client, uri) => {
+    const { contents } = await client.readResource({ uri });
+    assert.equal(contents[0].uri, uri);
+    return JSON.parse(contents[0].text);
+  };
+
+  const tests = {
+    "maps are listed as resources": async (client) => {
+      stub.route(ROUTES);
+      const { resources } = await client.listResources();
+      assert.deepEqual(
+        resources.map((resource) => resource.uri),
+        ["youmap://maps", "youmap://map/3", "youmap://map/4"],
+      );
+      assert.equal(resources[1].name, "Vienna");
+      assert.equal(resources[1].description, "Coffee houses");
+
+      const { resourceTemplates } = await client.listResourceTemplates();
+      assert.equal(resourceTemplates.length, 3);
+    },
+
+    "a map resource holds the map and its actions": async (client) => {
+      stub.route(ROUTES);
+      const { map, actions } = await read(client, "youmap://map/3");
+      assert.equal(map.name, "Vienna");
+      assert.deepEqual(
+        actions.map((action) => action.id),
+        [5],
+      );
+    },
+
+    "action versions are read by number or as latest": async (client) => {
+      stub.route(ROUTES);
+      const first = await read(client, "youmap://action/5/v/1");
+      assert.equal(first.version, 1);
+      const latest = await read(client, "youmap://action/5/v/latest");
+      assert.equal(latest.version, 2);
+    },
+
+    "missing resources are -32002 and unknown URIs -32602": async (client) => {
+      stub.route(ROUTES);
+      await assert.rejects(
+        client.readResource({ uri: "youmap://action/5/v/9" }),
+        (error) => error.code === -32002,
+      );
+      await assert.rejects(
+        client.readResource({ uri: "youmap://map/99" }),
+        (error) => error.code === -32002,
+      );
+      await assert.rejects(
+        client.readResource({ uri: "youmap://nothing" }),
+        (error) => error.code === -32602,
+      );
+    },
+
+    "prompts are listed with their arguments": async (client) => {
+      const { prompts } = await client.listPrompts();
+      assert.deepEqual(
+        prompts.map((prompt) => prompt.name),
+        [
+          "build_map_from_topic",
+          "add_places_to_map",
+          "design_action_for_use_case",
+        ],
+      );
+      const topic = prompts[0].arguments.find((arg) => arg.name === "topic");
+      assert.equal(topic.required, true);
+    },
+
+    "prompts are filled in with their arguments and defaults": async (
+      client,
+    ) => {
+      const { messages } = await client.getPrompt({
+        name: "build_map_from_topic",
+        arguments: { topic: "Best ramen in Tokyo" },
+      });
+      assert.equal(messages.length, 1);
+      assert.equal(messages[0].role, "user");
+      const { text } = messages[0].content;
+      assert.match(text, /about "Best ramen in Tokyo"/);
+      assert.match(text, /Number of places: 10/);
+      assert.doesNotMatch(text, /Region:/);
+    },
+
+    "unknown prompts and missing arguments are -32602": async (client) => {
+      await assert.rejects(
+        client.getPrompt({ name: "write_poem" }),
+        (error) => error.code === -32602,
+      );
+      await assert.rejects(
+        client.getPrompt({
+          name: "add_places_to_map",
+          arguments: { mapId: "3" },
+        }),
+        (error) => error.code === -32602 && /places/.test(error.message),
+      );
+    },
+
+    "map and action IDs are completed from the API": async (client) => {
+      stub.route(ROUTES);
+      const ref = { type: "ref/prompt", name: "add_places_to_map" };
+
+      const maps = await client.complete({
+        ref,
+        argument: { name: "mapId", value: "vie" },
+      });
+      assert.deepEqual(maps.completion.values, ["3"]);
+
+      const actions = await client.complete({
+        ref,
+        argument: { name: "actionId", value: "" },
+        context: { arguments: { mapId: "3" } },
+      });
+      assert.deepEqual(actions.completion.values, ["5"]);
+
+      // Actions can't be suggested before the map is known
+      const withoutMap = await client.complete({
+        ref,
+        argument: { name: "actionId", value: "" },
+      });
+      assert.deepEqual(withoutMap.completion.values, []);
+    },
+
+    "emoji and border colors are completed locally": async (client) => {
+      const ref = { type: "ref/prompt", name: "design_action_for_use_case" };
+
+      const emoji = await client.complete({
+        ref,
+        argument: { name: "emoji", value: ":coff" },
+      });
+      assert.equal(emoji.completion.values[0], ":coffee:");
+
+      const colors = await client.complete({
+        ref,
+        argument: { name: "borderColor", value: "7530" },
+      });
+      assert.deepEqual(colors.completion.values, ["#7530F6"]);
+      assert.deepEqual(stub.requests, []);
+    },
+
+    "failed lookups complete to nothing": async (client) => {
+      stub.respond = () => ({ status: 403 });
+      const { completion } = await client.complete({
+        ref: { type: "ref/prompt", name: "add_places_to_map" },
+        argument: { name: "mapId", value: "3" },
+      });
+      assert.deepEqual(completion.values, []);
+      assert.equal(completion.hasMore, false);
+    },
+
+    "the library entry point exports the client, tools and servers":
+      async () => {
+        for (const name of [
+          "YouMapClient",
+          "ResponseCache",
+          "ToolExecutor",
+          "createMcpServer",
+          "createYouMapMcpServer",
+          "requestConfigFromEnv",
+          "runTool",
+          "mapUrl",
+        ]) {
+          assert.equal(typeof lib[name], "function", name);
+        }
+        assert.ok(lib.TOOLS.length > 0);
+
+        stub.route(ROUTES);
+        const client = new lib.YouMapClient({ baseURL, apiKey: "key" });
+        const result = await lib.runTool(client, "get_map", {
+          mapId: 3,
+          includeActions: false,
+        });
+        assert.equal(result.map.name, "Vienna");
+      },
+
+    "embedded servers offer only the tools they are given": async () => {
+      const client = await connect({
+        tools: lib.TOOLS.filter((tool) => tool.name === "get_map"),
+      });
+      try {
+        const { tools } = await client.listTools();
+        assert.deepEqual(
+          tools.map((tool) => tool.name),
+          ["get_map"],
+        );
+      } finally {
+        await client.close();
+      }
+    },
+
+    "importing the library starts no server": async () => {
+      // A stdio server would keep the process alive and wait for input
+      const { stdout } = await new Promise((resolve, reject) => {
+        execFile(
+          process.execPath,
+          ["--input-type=module", "-e", 'await import("./dist/lib.js")'],
+          { timeout: 10000 },
+          (error, stdout, stderr) =>
+            error ? reject(error) : resolve({ stdout, stderr }),
+        );
+      });
+      assert.equal(stdout, "");
+    },
+  };
+
+  let failed = 0;
+
+  for (const [name, test] of Object.entries(tests)) {
+    stub.reset();
+    const client = await connect();
+    try {
+      await test(client);
+      console.log(`✅ ${name}`);
+    } catch (error) {
+      failed += 1;
+      console.error(`❌ ${name}`);
+      console.error(`   ${error.message.split("\n").join("\n   ")}`);
+    } finally {
+      await client.close();
+    }
+  }
+
+  stub.server.close();
+
+  if (failed > 0) {
+    console.error(`\n💥 ${failed} test(s) failed`);
+    process.exit(1);
+  }
+
+  console.log("\n🎉 All MCP handler tests passed!");
+}
+
+runTests().catch((error) => {
+  console.error("💥 Unexpected error:", error);
+  process.exit(1);
+});
@@ -0,0 +1,262 @@
+#!/usr/bin/env node
+
+/**
+ * HTTP server tests for YouMap MCP
+ *
+ * Starts the built server in HTTP mode against a local stub of the YouMap API
+ * and verifies:
+ * 1. Sessionless JSON-RPC calls are answered by the MCP Server, including the
+ *    legacy method names
+ * 2. Batches get one response per request, in order
+ * 3. Streamable HTTP sessions are bound to the credentials that started them
+ *
+ * Usage: npm run test:server
+ */
+
+import assert from "node:assert/strict";
+import { spawn } from "node:child_process";
+import net from "node:net";
+import { createStub, listPage } from "./test-stub.js";
+
+const ALICE = { "X-API-Key": "alice" };
+const BOB = { "X-API-Key": "bob" };
+
+// Free port for the server, which logs the port it was given
+async function freePort() {
+  const server = net.createServer();
+  await new Promise((resolve) => server.listen(0, resolve));
+  const { port } = server.address();
+  await new Promise((resolve) => server.close(resolve));
+  return port;
+}
+
+// Start dist/server.js in HTTP mode and wait until it listens
+async function startServer(env) {
+  const child = spawn(process.execPath, ["dist/server.js"], {
+    env: { ...process.env, MCP_MODE: "http", ...env },
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+
+  await new Promise((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new Error("Server did not start within 10s")),
+      10000,
+    );
+    child.stdout.on("data", (chunk) => {
+      if (String(chunk).includes("YouMap MCP Server running")) {
+        clearTimeout(timer);
+        resolve();
+      }
+    });
+    child.on("exit", (code) => {
+      clearTimeout(timer);
+      reject(new Error(`Server exited with code ${code}`));
+    });
+  });
+  // Keep draining the server's logs
+  child.stdout.resume();
+  child.stderr.resume();
+
+  return child;
+}
+
+function request(id, method, params) {
+  return { jsonrpc: "2.0", id, method, ...(params && { params }) };
+}
+
+async function runTests() {
+  console.log("🧪 Testing YouMap MCP HTTP server...\n");
+
+  const stub = createStub();
+  await new Promise((resolve) => stub.server.listen(0, resolve));
+  const baseURL = `http://localhost:${stub.server.address().port}`;
+
+  const port = await freePort();
+  const child = await startServer({
+    PORT: String(port),
+    YOUMAP_BASE_URL: baseURL,
+  });
+  const endpoint = `http://localhost:${port}/v1/mcp`;
+
+  // POST a JSON-RPC body and return the status, headers and parsed body
+  const post = async (body, headers = ALICE) => {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+    });
+    const text = await response.text();
+    return {
+      status: response.status,
+      headers: response.headers,
+      body: text && !text.startsWith("event:") ? JSON.parse(text) : text,
+    };
+  };
+
+  // Start a Streamable HTTP session and return its ID
+  const startSession = async (headers) => {
+    const { status, headers: responseHeaders } = await post(
+      request(1, "initialize", {
+        protocolVersion: "2025-03-26",
+        capabilities: {},
+        clientInfo: { name: "test", version: "1.0.0" },
+      }),
+      { ...headers, Accept: "application/json, text/event-stream" },
+    );
+    assert.equal(status, 200);
+    return responseHeaders.get("mcp-session-id");
+  };
+
+  const sessionHeaders = (headers, sessionId) => ({
+    ...headers,
+    Accept: "application/json, text/event-stream",
+    "Mcp-Session-Id": sessionId,
+  });
+
+  const tests = {
+    "sessionless initialize is answered by the MCP Server": async () => {
+      const { body } = await post(
+        request(1, "initialize", {
+          protocolVersion: "2025-03-26",
+          capabilities: {},
+          clientInfo: { name: "test", version: "1.0.0" },
+        }),
+      );
+      assert.equal(body.id, 1);
+      assert.equal(body.result.protocolVersion, "2025-03-26");
+      assert.ok(body.result.capabilities.completions);
+      assert.ok(body.result.capabilities.tools);
+    },
+
+    "legacy method names are aliased to tools/list and tools/call":
+      async () => {
+        stub.respond = () => ({ body: { id: 3, name: "Vienna" } });
+
+        const listed = await post(request(1, "list_tools"));
+        assert.ok(listed.body.result.tools.some((t) => t.name === "get_map"));
+
+        const called = await post(
+          request(2, "call_tool", {
+            name: "get_map",
+            arguments: { mapId: 3, includeActions: false },
+          }),
+        );
+        const result = JSON.parse(called.body.result.content[0].text);
+        assert.equal(result.map.name, "Vienna");
+      },
+
+    "tool calls with invalid arguments are rejected with -32602": async () => {
+      const { body } = await post(
+        request(1, "tools/call", {
+          name: "get_map",
+          arguments: { mapId: "three" },
+        }),
+      );
+      assert.equal(body.error.code, -32602);
+      assert.match(body.error.message, /mapId/);
+      assert.deepEqual(stub.requests, []);
+    },
+
+    "unknown methods and malformed messages are rejected": async () => {
+      const unknown = await post(request(1, "tools/unknown"));
+      assert.equal(unknown.body.error.code, -32601);
+
+      const malformed = await post({ jsonrpc: "1.0", id: 2, method: "list" });
+      assert.equal(malformed.body.error.code, -32600);
+      assert.equal(malformed.body.id, 2);
+    },
+
+    "requests without credentials are unauthorized": async () => {
+      const { body } = await post(request(1, "tools/list"), {});
+      assert.equal(body.error.code, -32001);
+    },
+
+    "batches get one response per request, in order": async () => {
+      const { body } = await post([
+        request("a", "tools/list"),
+        { jsonrpc: "2.0", method: "notifications/initialized" },
+        request("b", "prompts/list"),
+        request("c", "tools/unknown"),
+      ]);
+      assert.deepEqual(
+        body.map((response) => response.id),
+        ["a", "b", "c"],
+      );
+      assert.ok(body[0].result.tools);
+      assert.ok(body[1].result.prompts);
+      assert.equal(body[2].error.code, -32601);
+    },
+
+    "empty batches and notification-only bodies": async () => {
+      const empty = await post([]);
+      assert.equal(empty.body.error.code, -32600);
+
+      const notification = await post([
+        { jsonrpc: "2.0", method: "notifications/initialized" },
+      ]);
+      assert.equal(notification.status, 202);
+    },
+
+    "sessions are bound to the credentials that started them": async () => {
+      stub.respond = (req) => listPage(req, "maps", []);
+      const sessionId = await startSession(ALICE);
+      assert.ok(sessionId);
+
+      const notification = {
+        jsonrpc: "2.0",
+        method: "notifications/initialized",
+      };
+      const own = await post(notification, sessionHeaders(ALICE, sessionId));
+      assert.equal(own.status, 202);
+
+      const other = await post(notification, sessionHeaders(BOB, sessionId));
+      assert.equal(other.status, 404);
+      assert.equal(other.body.error.message, "Session not found");
+    },
+
+    "sessions are not started for rejected credentials": async () => {
+      stub.respond = () => ({ status: 401, body: {} });
+      const { status, body } = await post(
+        request(1, "initialize", {
+          protocolVersion: "2025-03-26",
+          capabilities: {},
+          clientInfo: { name: "test", version: "1.0.0" },
+        }),
+        { ...BOB, Accept: "application/json, text/event-stream" },
+      );
+      assert.equal(status, 401);
+      assert.equal(body.error.code, -32001);
+    },
+  };
+
+  let failed = 0;
+
+  try {
+    for (const [name, test] of Object.entries(tests)) {
+      stub.reset();
+      try {
+        await test();
+        console.log(`✅ ${name}`);
+      } catch (error) {
+        failed += 1;
+        console.error(`❌ ${name}`);
+        console.error(`   ${error.message.split("\n").join("\n   ")}`);
+      }
+    }
+  } finally {
+    child.kill();
+    stub.server.close();
+  }
+
+  if (failed > 0) {
+    console.error(`\n💥 ${failed} test(s) failed`);
+    process.exit(1);
+  }
+
+  console.log("\n🎉 All server tests passed!");
+}
+
+runTests().catch((error) => {
+  console.error("💥 Unexpected error:", error);
+  process.exit(1);
+});
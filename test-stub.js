@@ -0,0 +1,72 @@
+/**
+ * Local stub of the YouMap API shared by the tests that exercise the built
+ * client, tools and server over HTTP
+ */
+
+import http from "node:http";
+
+// One page of `items` for the limit and offset of a list request
+export function listPage(req, itemsKey, items, count = items.length) {
+  const query = new URL(req.url, "http://stub").searchParams;
+  const offset = Number(query.get("offset") || 0);
+  const limit = Number(query.get("limit") || 20);
+  return { body: { count, [itemsKey]: items.slice(offset, offset + limit) } };
+}
+
+export function createStub() {
+  const stub = {
+    // Requests the stub received, as "METHOD /path"
+    requests: [],
+    // Idempotency-Key headers of the requests, undefined when not sent
+    idempotencyKeys: [],
+    // Replies to a request with { status, headers, body, delay }
+    respond: () => ({ body: {} }),
+  };
+
+  stub.server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      stub.requests.push(`${req.method} ${req.url.split("?")[0]}`);
+      stub.idempotencyKeys.push(req.headers["idempotency-key"]);
+
+      const reply = stub.respond(req, body) || {};
+      setTimeout(() => {
+        res.statusCode = reply.status || 200;
+        for (const [name, value] of Object.entries(reply.headers || {})) {
+          res.setHeader(name, value);
+        }
+        res.setHeader("Content-Type", "application/json");
+        res.end(JSON.stringify(reply.body ?? {}));
+      }, reply.delay || 0);
+    });
+  });
+
+  stub.reset = () => {
+    stub.requests = [];
+    stub.idempotencyKeys = [];
+    stub.respond = () => ({ body: {} });
+  };
+
+  stub.count = (request) =>
+    stub.requests.filter((received) => received === request).length;
+
+  // Fail the first `times` requests with `failure`, then answer with `body`
+  stub.failFirst = (times, failure, body = {}) => {
+    let failures = 0;
+    stub.respond = () => (failures++ < times ? failure : { body });
+  };
+
+  // Answer from a table of "METHOD /path" -> (req, json) => reply, where
+  // json is the parsed request body; anything else is a 404
+  stub.route = (routes) => {
+    stub.respond = (req, body) => {
+      const handler = routes[`${req.method} ${req.url.split("?")[0]}`];
+      return handler
+        ? handler(req, body ? JSON.parse(body) : undefined)
+        : { status: 404, body: { message: "Not found" } };
+    };
+  };
+
+  return stub;
+}
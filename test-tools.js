@@ -0,0 +1,321 @@
+#!/usr/bin/env node
+
+/**
+ * Tool tests for YouMap MCP
+ *
+ * Runs the built tools against a local stub of the YouMap API and verifies:
+ * 1. Arguments are validated against the tool's input schema
+ * 2. build_map creates a map, its actions and posts, and rolls back failures
+ * 3. duplicate_map copies actions and posts, reading each post in full
+ *
+ * Usage: npm run test:tools
+ */
+
+import assert from "node:assert/strict";
+import { YouMapClient } from "./dist/client.js";
+import { runTool } from "./dist/tools/index.js";
+import { createStub, listPage } from "./test-stub.js";
+
+// A source map with one action and one post, as listed and as read in full
+const SOURCE_MAP = {
+  id: 3,
+  name: "Vienna",
+  slug: "vienna",
+  description: "Hi",
+  accessLevel: "public",
+};
+const SOURCE_ACTION = { id: 5, name: "Cafes", emoji: ":coffee:", order: 0 };
+const SOURCE_VERSIONS = [
+  {
+    version: 1,
+    isPublished: true,
+    fields: {
+      ratingFields: [{ id: 90, fieldTypeId: 9, label: "Rating", order: 0 }],
+    },
+  },
+];
+const LISTED_POST = { id: 7, name: "Cafe", actionId: 5, lat: 48.2, lon: 16.3 };
+const FULL_POST = {
+  ...LISTED_POST,
+  description: "Coffee & cake",
+  fields: { ratingFields: [{ id: 700, fieldTypeId: 9, score: 4 }] },
+};
+
+// Routes of the stub for copying SOURCE_MAP; created maps, actions and
+// posts are pushed to `created`
+function duplicateRoutes(created) {
+  return {
+    "GET /api/v1/map/name-availability/Vienna%20copy": () => ({
+      body: { success: true },
+    }),
+    "GET /api/v1/map/3": () => ({ body: SOURCE_MAP }),
+    "GET /api/v1/map/3/post-templates": (req) =>
+      listPage(req, "postTemplates", [SOURCE_ACTION]),
+    "GET /api/v1/map/3/posts": (req) => listPage(req, "posts", [LISTED_POST]),
+    "GET /api/v1/post/7": () => ({ body: FULL_POST }),
+    "GET /api/v1/post-template/5/versions": () => ({ body: SOURCE_VERSIONS }),
+    "GET /api/v1/post-template/50/versions": () => ({
+      body: [
+        {
+          version: 1,
+          fields: {
+            ratingFields: [{ id: 95, fieldTypeId: 99, label: "Rating" }],
+          },
+        },
+      ],
+    }),
+    "POST /api/v1/map": (req, json) => {
+      created.maps.push(json);
+      return { body: { id: 30, slug: "vienna-copy", ...json } };
+    },
+    "POST /api/v1/post-template": (req, json) => {
+      created.actions.push(json);
+      return { body: { id: 50, ...json } };
+    },
+    "POST /api/v1/post": (req, json) => {
+      created.posts.push(json);
+      return { body: { id: 70, ...json } };
+    },
+  };
+}
+
+// A build_map spec with two actions and a post of the second one
+const RAMEN_SPEC = {
+  map: { name: "Ramen", description: "Ramen shops in Tokyo" },
+  actions: [
+    { name: "Shops", emoji: ":ramen:" },
+    { name: "Stalls", emoji: ":oden:" },
+  ],
+  posts: [
+    { action: "Stalls", name: "Ichiran", latitude: 35.66, longitude: 139.7 },
+  ],
+};
+
+// Routes of the stub for building RAMEN_SPEC; created maps, actions and
+// posts are pushed to `created`
+function buildRoutes(created) {
+  return {
+    "GET /api/v1/map/name-availability/Ramen": () => ({
+      body: { success: true },
+    }),
+    "POST /api/v1/map": (req, json) => {
+      created.maps.push(json);
+      return { body: { id: 30, slug: "ramen", ...json } };
+    },
+    "POST /api/v1/post-template": (req, json) => {
+      created.actions.push(json);
+      return { body: { id: 50 + created.actions.length - 1, ...json } };
+    },
+    "POST /api/v1/post": (req, json) => {
+      created.posts.push(json);
+      return { body: { id: 70, ...json } };
+    },
+    "DELETE /api/v1/map/30": () => ({ body: { success: true } }),
+  };
+}
+
+async function runTests() {
+  console.log("🧪 Testing YouMap MCP tools...\n");
+
+  const stub = createStub();
+  await new Promise((resolve) => stub.server.listen(0, resolve));
+  const baseURL = `http://localhost:${stub.server.address().port}`;
+
+  const newClient = () =>
+    new YouMapClient({ baseURL, apiKey: "key", retry: { maxRetries: 0 } });
+
+  const tests = {
+    "invalid arguments are rejected with -32602 before any request":
+      async () => {
+        await assert.rejects(
+          runTool(newClient(), "create_post", { mapId: "3", latitude: 91 }),
+          (error) => {
+            assert.equal(error.code, -32602);
+            assert.deepEqual(
+              error.data.issues.map((issue) => issue.path),
+              ["mapId", "latitude", "actionId"],
+            );
+            return true;
+          },
+        );
+        assert.deepEqual(stub.requests, []);
+      },
+
+    "long post descriptions are truncated, not rejected": async () => {
+      const created = [];
+      stub.route({
+        "POST /api/v1/post": (req, json) => {
+          created.push(json);
+          return { body: { id: 70, ...json } };
+        },
+      });
+
+      await runTool(newClient(), "create_post", {
+        mapId: 3,
+        actionId: 5,
+        latitude: 48.2,
+        longitude: 16.3,
+        description: "a".repeat(600),
+      });
+
+      assert.equal(created[0].description.length, 500);
+    },
+
+    "build_map passes the new map and action IDs along": async () => {
+      const created = { maps: [], actions: [], posts: [] };
+      stub.route(buildRoutes(created));
+
+      const result = await runTool(newClient(), "build_map", RAMEN_SPEC);
+
+      assert.equal(result.success, true, result.message);
+      assert.deepEqual(result.actionIds, { Shops: 50, Stalls: 51 });
+      assert.deepEqual(result.postIds, [70]);
+      assert.deepEqual(
+        created.actions.map((action) => action.mapId),
+        [30, 30],
+      );
+      assert.equal(created.posts[0].mapId, 30);
+      assert.equal(created.posts[0].actionId, 51);
+    },
+
+    "build_map rejects an invalid spec before creating anything": async () => {
+      await assert.rejects(
+        runTool(newClient(), "build_map", {
+          ...RAMEN_SPEC,
+          actions: [{ name: "Shops", emoji: "ramen" }],
+        }),
+        (error) => {
+          assert.match(error.message, /^Invalid map spec:/);
+          assert.match(error.message, /actions\[0\]: emoji: "ramen"/);
+          assert.match(error.message, /no action named "Stalls"/);
+          return true;
+        },
+      );
+      assert.deepEqual(stub.requests, []);
+    },
+
+    "build_map deletes the new map when a step fails": async () => {
+      stub.route({
+        ...buildRoutes({ maps: [], actions: [], posts: [] }),
+        "POST /api/v1/post": () => ({
+          status: 400,
+          body: { message: "Invalid location" },
+        }),
+      });
+
+      const result = await runTool(newClient(), "build_map", RAMEN_SPEC);
+
+      assert.equal(result.success, false);
+      assert.equal(result.rolledBack, true);
+      assert.match(result.message, /^Failed at create_post "Ichiran"/);
+      assert.equal(stub.count("DELETE /api/v1/map/30"), 1);
+      assert.deepEqual(
+        result.steps.map((step) => step.success),
+        [true, true, true, false],
+      );
+    },
+
+    "build_map keeps what was created with onFailure report": async () => {
+      stub.route({
+        ...buildRoutes({ maps: [], actions: [], posts: [] }),
+        "POST /api/v1/post": () => ({ status: 400, body: {} }),
+      });
+
+      const result = await runTool(newClient(), "build_map", {
+        ...RAMEN_SPEC,
+        onFailure: "report",
+      });
+
+      assert.equal(result.rolledBack, false);
+      assert.equal(result.mapId, 30);
+      assert.equal(stub.count("DELETE /api/v1/map/30"), 0);
+    },
+
+    "duplicate_map copies the field values of each post in full": async () => {
+      const created = { maps: [], actions: [], posts: [] };
+      stub.route(duplicateRoutes(created));
+
+      const result = await runTool(newClient(), "duplicate_map", {
+        sourceMapId: 3,
+        name: "Vienna copy",
+        includePosts: true,
+      });
+
+      assert.equal(result.success, true, JSON.stringify(result.failures));
+      assert.deepEqual(result.idMapping, {
+        map: { 3: 30 },
+        actions: { 5: 50 },
+        posts: { 7: 70 },
+      });
+      assert.equal(stub.count("GET /api/v1/post/7"), 1);
+      assert.equal(created.posts[0].description, "Coffee & cake");
+      assert.deepEqual(created.posts[0].fields, {
+        ratingFields: [{ fieldTypeId: 99, score: 4 }],
+      });
+    },
+
+    "duplicate_map leaves out source descriptions create_map rejects":
+      async () => {
+        const created = { maps: [], actions: [], posts: [] };
+        stub.route(duplicateRoutes(created));
+
+        await runTool(newClient(), "duplicate_map", {
+          sourceMapId: 3,
+          name: "Vienna copy",
+        });
+
+        assert.equal(created.maps.length, 1);
+        assert.equal(created.maps[0].description, undefined);
+      },
+
+    "duplicate_map reports a failed create_map": async () => {
+      stub.route({
+        ...duplicateRoutes({ maps: [], actions: [], posts: [] }),
+        "POST /api/v1/map": () => ({
+          status: 400,
+          body: { message: "Invalid cover image" },
+        }),
+      });
+
+      await assert.rejects(
+        runTool(newClient(), "duplicate_map", {
+          sourceMapId: 3,
+          name: "Vienna copy",
+        }),
+        (error) => {
+          assert.match(error.message, /^Failed to create the new map: /);
+          assert.equal(error.code, undefined);
+          return true;
+        },
+      );
+    },
+  };
+
+  let failed = 0;
+
+  for (const [name, test] of Object.entries(tests)) {
+    stub.reset();
+    try {
+      await test();
+      console.log(`✅ ${name}`);
+    } catch (error) {
+      failed += 1;
+      console.error(`❌ ${name}`);
+      console.error(`   ${error.message.split("\n").join("\n   ")}`);
+    }
+  }
+
+  stub.server.close();
+
+  if (failed > 0) {
+    console.error(`\n💥 ${failed} test(s) failed`);
+    process.exit(1);
+  }
+
+  console.log("\n🎉 All tool tests passed!");
+}
+
+runTests().catch((error) => {
+  console.error("💥 Unexpected error:", error);
+  process.exit(1);
+});
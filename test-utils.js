@@ -0,0 +1,521 @@
+#!/usr/bin/env node
+
+/**
+ * Tests for the helpers in src/utils that don't need the YouMap API
+ *
+ * Runs against the built modules in dist/ and covers:
+ * 1. Import row parsing for GeoJSON and CSV input
+ * 2. GeoJSON, KML and GPX export of posts
+ * 3. Cache tags of API reads and writes
+ * 4. Post fields built from and read back by field label
+ * 5. Action definition checks of create_action and update_action
+ * 6. Date parsing and dateField normalization
+ * 7. Radius and bounding box queries of the spatial index
+ *
+ * Usage: npm run test:utils
+ */
+
+import assert from "node:assert/strict";
+import { validateAction } from "./dist/utils/actions.js";
+import { readTags, writeTags } from "./dist/utils/cache.js";
+import { normalizeDateValue } from "./dist/utils/dates.js";
+import {
+  featuresToGpx,
+  featuresToKml,
+  postsToFeatureCollection,
+} from "./dist/utils/export.js";
+import {
+  buildFieldsFromLabels,
+  needsDateNormalization,
+  normalizeDateFields,
+  resolveFieldValues,
+} from "./dist/utils/fields.js";
+import { parseCsv, parseImportRows } from "./dist/utils/import.js";
+import { SpatialIndex } from "./dist/utils/spatial.js";
+
+const EXPORT_POSTS = [
+  {
+    id: 1,
+    name: "Cafe <Central>",
+    description: "Coffee & cake",
+    latitude: 48.21,
+    longitude: 16.37,
+    actionId: 5,
+    actionName: "Cafes",
+    emoji: ":coffee:",
+    url: "https://youmap.com/app/vienna/posts/cafe",
+    fields: {
+      ratingFields: [{ fieldTypeId: 9, score: 4 }],
+      optionSliderFields: [{ fieldTypeId: 10, index: 1 }],
+    },
+  },
+  // Posts without coordinates are left out of every format
+  { id: 2, name: "Nowhere", actionId: 5 },
+];
+
+// Field definitions of the posts' actions, by action ID
+const EXPORT_ACTION_FIELDS = new Map([
+  [
+    5,
+    {
+      ratingFields: [{ label: "Rating", fieldTypeId: 9 }],
+      optionSliderFields: [
+        {
+          label: "Price",
+          fieldTypeId: 10,
+          options: [{ text: "Cheap" }, { text: "Moderate" }],
+        },
+      ],
+    },
+  ],
+]);
+
+// Field definitions of an action version, as returned by the API
+const CAFE_FIELDS = {
+  textFields: [{ label: "Notes", fieldTypeId: 1, maxLength: 10 }],
+  ratingFields: [{ label: "Rating", fieldTypeId: 9, maxRating: 5 }],
+  optionSliderFields: [
+    { label: "Price", fieldTypeId: 10, options: ["Cheap", "Moderate"] },
+  ],
+  selectFields: [
+    {
+      label: "Cuisine",
+      fieldTypeId: 11,
+      multiselect: false,
+      options: [
+        { id: 21, text: "Italian" },
+        { id: 22, text: "Thai" },
+      ],
+    },
+  ],
+};
+
+const DATE = { label: "When", dateType: "Date", allowTimeRanges: true };
+const TIME = { label: "Hours", dateType: "Time", allowTimeRanges: true };
+const DATE_AND_TIME = { label: "Starts", dateType: "DateAndTime" };
+
+const tests = {
+  "csv headers ignore a UTF-8 byte order mark": () => {
+    const [record] = parseCsv("\uFEFFname,lat,lon\nCafe,1,2\n");
+    assert.deepEqual(Object.keys(record), ["name", "lat", "lon"]);
+
+    const [row] = parseImportRows("\uFEFFname,lat,lon\nCafe,1,2\n", "csv");
+    assert.equal(row.name, "Cafe");
+    assert.equal(row.latitude, 1);
+    assert.equal(row.longitude, 2);
+  },
+
+  "csv quoting and row numbers": () => {
+    const rows = parseImportRows(
+      'name,description,latitude,longitude\r\n"Cafe, ""Central""","Line 1\nLine 2",48.2,16.37\r\n\r\nBar,,1,2',
+      "csv",
+    );
+    assert.equal(rows.length, 2);
+    assert.equal(rows[0].name, 'Cafe, "Central"');
+    assert.equal(rows[0].description, "Line 1\nLine 2");
+    assert.equal(rows[1].row, 2);
+    assert.equal(rows[1].description, undefined);
+  },
+
+  "geojson features that are not Points fail only their own row": () => {
+    const rows = parseImportRows(
+      {
+        type: "FeatureCollection",
+        features: [
+          {
+            type: "Feature",
+            geometry: { type: "Point", coordinates: [16.37, 48.2] },
+            properties: { name: "Point" },
+          },
+          {
+            type: "Feature",
+            geometry: {
+              type: "LineString",
+              coordinates: [
+                [0, 0],
+                [1, 1],
+              ],
+            },
+            properties: { name: "Line" },
+          },
+          { type: "Feature", geometry: null, properties: { name: "None" } },
+        ],
+      },
+      "geojson",
+    );
+
+    assert.equal(rows.length, 3);
+    assert.equal(rows[0].error, undefined);
+    assert.equal(rows[0].latitude, 48.2);
+    assert.match(rows[1].error, /LineString/);
+    assert.equal(rows[1].name, "Line");
+    assert.equal(rows[2].error, "Feature has no geometry");
+    assert.equal(rows[2].row, 3);
+  },
+
+  "geojson text with a byte order mark is parsed": () => {
+    const rows = parseImportRows(
+      '\uFEFF{"type":"FeatureCollection","features":[]}',
+      undefined,
+    );
+    assert.deepEqual(rows, []);
+  },
+
+  "posts become point features with field values keyed by label": () => {
+    const { features } = postsToFeatureCollection(
+      EXPORT_POSTS,
+      EXPORT_ACTION_FIELDS,
+    );
+    assert.equal(features.length, 1);
+    assert.deepEqual(features[0].geometry.coordinates, [16.37, 48.21]);
+    assert.equal(features[0].properties.Rating, 4);
+    assert.equal(features[0].properties.Price, "Moderate");
+    assert.equal(features[0].properties.emoji, ":coffee:");
+  },
+
+  "kml and gpx are rendered from the same features": () => {
+    const collection = postsToFeatureCollection(
+      EXPORT_POSTS,
+      EXPORT_ACTION_FIELDS,
+    );
+
+    const kml = featuresToKml(collection, {
+      name: "Vienna",
+      palette: ["#FF0000"],
+      actionColors: new Map([[5, "#00FF00"]]),
+      defaultColor: "#FF0000",
+    });
+    assert.match(kml, /<name>Vienna<\/name>/);
+    assert.match(kml, /<name>Cafe &lt;Central&gt;<\/name>/);
+    assert.match(kml, /<styleUrl>#border-00FF00<\/styleUrl>/);
+    assert.match(kml, /<Data name="Rating"><value>4<\/value><\/Data>/);
+    assert.match(kml, /<coordinates>16.37,48.21<\/coordinates>/);
+    assert.equal(kml.match(/<Placemark/g).length, 1);
+
+    const gpx = featuresToGpx(collection, { name: "Vienna" });
+    assert.match(gpx, /<metadata>\s*<name>Vienna<\/name>/);
+    assert.match(gpx, /<wpt lat="48.21" lon="16.37">/);
+    assert.match(gpx, /<sym>:coffee:<\/sym>/);
+    assert.equal(gpx.match(/<wpt/g).length, 1);
+  },
+
+  "writes invalidate the reads of the entities they change": () => {
+    const read = readTags("/api/v1/post/7");
+    assert.deepEqual(read, ["post:7"]);
+
+    for (const path of [
+      "/api/v1/post/7",
+      "/api/v2/post/7",
+      "/api/v1/post/admin/7",
+    ]) {
+      const tags = writeTags(path);
+      assert.ok(tags.includes("post:7"), `${path} drops post:7`);
+      assert.ok(tags.includes("posts"), `${path} drops post lists`);
+    }
+
+    assert.deepEqual(readTags("/api/v1/map/3/posts"), ["map:3", "posts"]);
+    assert.deepEqual(writeTags("/api/v1/post", { mapId: 3 }), [
+      "map:3",
+      "posts",
+    ]);
+    assert.deepEqual(writeTags("/api/v1/post-template/5/v/2"), [
+      "action:5",
+      "actions",
+    ]);
+    assert.deepEqual(writeTags("/api/v1/map/3"), ["map:3", "maps"]);
+    assert.deepEqual(readTags("/api/v1/map"), ["maps"]);
+  },
+
+  "post fields are built from values keyed by label": () => {
+    const fields = buildFieldsFromLabels(CAFE_FIELDS, {
+      notes: "Cosy",
+      RATING: "4",
+      Price: "moderate",
+      Cuisine: "Thai",
+      // Empty values are left out
+      " Notes ": "",
+    });
+    assert.deepEqual(fields, {
+      textFields: [{ fieldTypeId: 1, text: "Cosy" }],
+      ratingFields: [{ fieldTypeId: 9, score: 4 }],
+      optionSliderFields: [{ fieldTypeId: 10, index: 1 }],
+      selectFields: [{ fieldTypeId: 11, options: [22] }],
+    });
+  },
+
+  "every invalid label value is reported at once": () => {
+    assert.throws(
+      () =>
+        buildFieldsFromLabels(CAFE_FIELDS, {
+          Notes: "Far too long for this field",
+          Rating: 6,
+          Cuisine: "Italian; Thai",
+          Wifi: "yes",
+        }),
+      (error) => {
+        assert.match(error.message, /^Invalid field values:/);
+        assert.match(error.message, /"Notes" must be at most 10 characters/);
+        assert.match(error.message, /"Rating" must be a whole number/);
+        assert.match(error.message, /"Cuisine" allows only one option/);
+        assert.match(error.message, /Unknown field "Wifi"/);
+        return true;
+      },
+    );
+  },
+
+  "post field values are read back with their labels": () => {
+    const values = resolveFieldValues(CAFE_FIELDS, {
+      ratingFields: [{ id: 5, fieldTypeId: 9, score: 4 }],
+      optionSliderFields: [{ fieldTypeId: 10, index: 0 }],
+      selectFields: [{ fieldTypeId: 11, options: [{ id: 22 }] }],
+    });
+    assert.deepEqual(values, [
+      {
+        fieldId: 5,
+        fieldTypeId: 9,
+        label: "Rating",
+        type: "ratingFields",
+        value: 4,
+      },
+      {
+        fieldId: undefined,
+        fieldTypeId: 10,
+        label: "Price",
+        type: "optionSliderFields",
+        value: { index: 0, text: "Cheap" },
+      },
+      {
+        fieldId: undefined,
+        fieldTypeId: 11,
+        label: "Cuisine",
+        type: "selectFields",
+        value: [{ id: 22, text: "Thai" }],
+      },
+    ]);
+  },
+
+  "valid action definitions pass the action checks": () => {
+    const errors = validateAction({
+      emoji: ":coffee:",
+      borderColor: "#7530f6",
+      duration: "BasedOnDateField",
+      fields: {
+        mediaFields: [{ label: "Photos", featured: true }],
+        textFields: [{ label: "Notes", featured: true }],
+        selectFields: [
+          {
+            label: "Cuisine",
+            withEmoji: true,
+            options: [
+              { text: "Pizza", emoji: ":pizza:" },
+              { text: "Ramen", emoji: ":ramen:" },
+            ],
+          },
+        ],
+        dateField: { label: "When", required: true, allowTimeRanges: true },
+      },
+    });
+    assert.deepEqual(errors, []);
+  },
+
+  "every violation of an action definition is reported": () => {
+    const errors = validateAction({
+      emoji: "coffee",
+      borderColor: "#123456",
+      duration: "BasedOnDateField",
+      fields: {
+        mediaFields: [{ label: "Photos", featured: true }],
+        textFields: [
+          { label: "Notes", featured: true },
+          { label: "Hours", featured: true },
+        ],
+        selectFields: [
+          {
+            label: "Cuisine",
+            options: [{ text: "Pizza", emoji: ":pizza:" }],
+          },
+        ],
+        optionSliderFields: [{ label: "Price", options: ["$", "$"] }],
+        valueSliderFields: [{ label: "Noise", min: 5, max: 5 }],
+        ratingFields: [{ label: "Rating", maxRating: 11 }],
+      },
+    });
+    assert.deepEqual(errors, [
+      'emoji: "coffee" is not a known emoji shortcode. Use get_emoji_shortnames to find one, e.g. ":camera:"',
+      errors[1],
+      'At most 2 fields can be featured when a media field is featured, got 3: mediaFields[0] "Photos", textFields[0] "Notes", textFields[1] "Hours"',
+      'selectFields[0] "Cuisine": must have 2-30 options, got 1',
+      'selectFields[0] "Cuisine": option "Pizza" has an emoji but withEmoji is not true. Set withEmoji to true and give every option an emoji, or remove the emoji',
+      'optionSliderFields[0] "Price": options must be unique',
+      'valueSliderFields[0] "Noise": min must be less than max',
+      'ratingFields[0] "Rating": maxRating must be between 1 and 10',
+      'duration "BasedOnDateField" requires a dateField',
+    ]);
+    assert.match(errors[1], /^borderColor: "#123456" is not in the palette/);
+  },
+
+  "partial action updates only check what they change": () => {
+    assert.deepEqual(
+      validateAction({ duration: "BasedOnDateField" }, { partial: true }),
+      [],
+    );
+    assert.equal(
+      validateAction({ emoji: ":nope:" }, { partial: true }).length,
+      1,
+    );
+  },
+
+  "dates and date ranges become unix timestamps": () => {
+    assert.deepEqual(normalizeDateValue(DATE, "2025-09-02"), {
+      startDate: "1756771200",
+      endDate: null,
+      startTime: null,
+      endTime: null,
+    });
+
+    const range = normalizeDateValue(DATE, "2024-02-28/2024-02-29");
+    assert.equal(Number(range.endDate) - Number(range.startDate), 86400);
+
+    const warsaw = normalizeDateValue(
+      DATE_AND_TIME,
+      "2025-09-02T18:30",
+      "Europe/Warsaw",
+    );
+    assert.equal(warsaw.startTime, String(Date.UTC(2025, 8, 2, 16, 30) / 1000));
+
+    const offset = normalizeDateValue(DATE_AND_TIME, "2025-09-02T18:30+02:00");
+    assert.equal(offset.startDate, warsaw.startDate);
+  },
+
+  "out-of-range dates and times are rejected": () => {
+    assert.throws(
+      () => normalizeDateValue(DATE, "2025-02-30"),
+      /Invalid date "2025-02-30": February 2025 has 28 days/,
+    );
+    assert.throws(
+      () => normalizeDateValue(DATE, "2025-13-01"),
+      /month must be 01-12/,
+    );
+    assert.throws(
+      () => normalizeDateValue(TIME, "25:99"),
+      /Invalid time "25:99": hour must be 00-23/,
+    );
+    assert.throws(
+      () => normalizeDateValue(DATE_AND_TIME, "2025-09-02T18:60"),
+      /minute must be 00-59/,
+    );
+  },
+
+  "overnight time ranges end the next day": () => {
+    const { startTime, endTime } = normalizeDateValue(TIME, "22:00/02:00");
+    assert.equal(Number(endTime) - Number(startTime), 4 * 3600);
+
+    assert.throws(
+      () => normalizeDateValue(DATE, "2025-09-05/2025-09-02"),
+      /ends before it starts/,
+    );
+  },
+
+  "dateField values fall back to the action's only date field": () => {
+    const actionFields = { dateField: { fieldTypeId: 12, ...DATE } };
+
+    const { dateField } = normalizeDateFields(actionFields, {
+      dateField: { startDate: "2025-09-02" },
+    });
+    assert.equal(dateField.fieldTypeId, 12);
+    assert.equal(dateField.startDate, "1756771200");
+
+    assert.throws(
+      () =>
+        normalizeDateFields(
+          {
+            dateField: [
+              { fieldTypeId: 12, ...DATE },
+              { fieldTypeId: 13, ...TIME },
+            ],
+          },
+          { dateField: { startDate: "2025-09-02" } },
+        ),
+      /has 2 dateFields\. Set the fieldTypeId .* to one of 12, 13/,
+    );
+  },
+
+  "dateField values already in API shape need no action fields": () => {
+    const fields = {
+      dateField: { fieldTypeId: 12, startDate: "1756771200", endDate: null },
+    };
+    assert.equal(needsDateNormalization(fields), false);
+    assert.equal(normalizeDateFields(undefined, fields), fields);
+
+    assert.equal(needsDateNormalization({ textFields: [] }), false);
+    assert.equal(
+      needsDateNormalization({ dateField: { startDate: "1756771200" } }),
+      true,
+    );
+    assert.equal(
+      needsDateNormalization({
+        dateField: [{ fieldTypeId: 12, startDate: "2025-09-02" }],
+      }),
+      true,
+    );
+  },
+
+  "spatial index finds posts by radius and bounding box": () => {
+    const index = new SpatialIndex([
+      { id: 1, latitude: 48.2082, longitude: 16.3738 },
+      { id: 2, latitude: 48.2102, longitude: 16.3738 },
+      { id: 3, latitude: 48.3, longitude: 16.3738 },
+      { id: 4, latitude: 0, longitude: 179.9 },
+      { id: 5, latitude: 0, longitude: -179.9 },
+      // Left out of every query
+      { id: 6 },
+    ]);
+    assert.equal(index.size, 5);
+
+    const near = index.withinRadius({ lat: 48.2082, lon: 16.3738 }, 500);
+    assert.deepEqual(near.map(({ item }) => item.id).sort(), [1, 2]);
+    assert.ok(near.every(({ distance }) => distance <= 500));
+
+    const box = index.withinBoundingBox({
+      leftBottom: { lat: 48.2, lon: 16.3 },
+      rightTop: { lat: 48.31, lon: 16.4 },
+    });
+    assert.deepEqual(box.map((item) => item.id).sort(), [1, 2, 3]);
+
+    // A box whose left edge is east of its right edge crosses the antimeridian
+    const across = index.withinBoundingBox({
+      leftBottom: { lat: -1, lon: 179 },
+      rightTop: { lat: 1, lon: -179 },
+    });
+    assert.deepEqual(across.map((item) => item.id).sort(), [4, 5]);
+  },
+};
+
+async function runTests() {
+  console.log("🧪 Testing helpers...\n");
+
+  let failed = 0;
+
+  for (const [name, test] of Object.entries(tests)) {
+    try {
+      await test();
+      console.log(`✅ ${name}`);
+    } catch (error) {
+      failed += 1;
+      console.error(`❌ ${name}`);
+      console.error(`   ${error.message.split("\n").join("\n   ")}`);
+    }
+  }
+
+  if (failed > 0) {
+    console.error(`\n💥 ${failed} test(s) failed`);
+    process.exit(1);
+  }
+
+  console.log("\n🎉 All helper tests passed!");
+}
+
+runTests().catch((error) => {
+  console.error("💥 Unexpected error:", error);
+  process.exit(1);
+});